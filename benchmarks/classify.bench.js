@@ -0,0 +1,111 @@
+/**
+ * Classification benchmarks
+ *
+ * Run with `npm run bench` (builds `dist/` first). Compares the classifier
+ * with and without its cache, and the rule engine's precompiled message
+ * filter against a linear scan of every rule.
+ */
+
+const { ErrorClassifier, DEFAULT_RETRY_CONFIG } = require('../dist');
+const { RuleEngine } = require('../dist/rule-engine');
+const { DEFAULT_RULES } = require('../dist/default-rules');
+
+const DURATION_MS = Number(process.env.BENCH_DURATION_MS ?? 500);
+
+// Measure classification rather than stack trace capture in `new Error()`
+Error.stackTraceLimit = 0;
+
+const MESSAGES = [
+  'Request timeout after 30000ms',
+  'Rate limit reached for requests',
+  "This model's maximum context length is 8192 tokens",
+  'Invalid API key provided',
+  'The model is currently overloaded',
+  'getaddrinfo ENOTFOUND api.example.com',
+  'Model not found',
+  'Something unexpected happened',
+  'Tool call returned malformed arguments',
+  'The server had an error while processing your request',
+];
+
+/**
+ * Run `fn` repeatedly for DURATION_MS and return operations per second
+ */
+function measure(fn) {
+  for (let i = 0; i < 1000; i++) fn(i);
+  let ops = 0;
+  const start = process.hrtime.bigint();
+  const end = start + BigInt(DURATION_MS) * 1_000_000n;
+  let now = start;
+  while (now < end) {
+    for (let i = 0; i < 100; i++) fn(ops + i);
+    ops += 100;
+    now = process.hrtime.bigint();
+  }
+  return ops / (Number(now - start) / 1e9);
+}
+
+/**
+ * Print a comparison of a baseline and an optimized variant
+ */
+function compare(name, baseline, optimized) {
+  const before = measure(baseline);
+  const after = measure(optimized);
+  const format = (value) => Math.round(value).toLocaleString('en-US').padStart(12);
+  console.log(`${name.padEnd(44)} ${format(before)} ops/s -> ${format(after)} ops/s  (${(after / before).toFixed(1)}x)`);
+}
+
+/**
+ * Reference matcher: evaluate every rule's message pattern in order
+ */
+function linearScan(rules, message) {
+  for (const rule of rules) {
+    if (rule.message && !rule.test && rule.status === undefined && rule.errorCode === undefined &&
+      rule.errorType === undefined && rule.name === undefined && !rule.instanceOf) {
+      rule.message.lastIndex = 0;
+      if (rule.message.test(message)) return rule;
+    }
+  }
+  return undefined;
+}
+
+const uncached = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { cache: false });
+const cached = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+const errors = MESSAGES.map((message) => Object.assign(new Error(message), { status: 500 }));
+
+console.log(`Each case runs for ${DURATION_MS}ms (BENCH_DURATION_MS)\n`);
+
+compare('classify(string)',
+  (i) => uncached.classify(MESSAGES[i % MESSAGES.length]),
+  (i) => cached.classify(MESSAGES[i % MESSAGES.length]));
+
+compare('classify(new Error) with repeated messages',
+  (i) => uncached.classify(new Error(MESSAGES[i % MESSAGES.length])),
+  (i) => cached.classify(new Error(MESSAGES[i % MESSAGES.length])));
+
+compare('isRetryable + shouldFallback on one Error',
+  (i) => {
+    const error = errors[i % errors.length];
+    return uncached.isRetryable(error) && uncached.shouldFallback(error);
+  },
+  (i) => {
+    const error = errors[i % errors.length];
+    return cached.isRetryable(error) && cached.shouldFallback(error);
+  });
+
+// A policy-sized rule set: the built-ins plus one keyword rule per vendor error
+const vendorRules = Array.from({ length: 100 }, (_, i) => ({
+  id: `vendor:${i}`,
+  code: 'INTERNAL_ERROR',
+  message: new RegExp(`vendor error e${1000 + i}|backend ${i} failed`, 'i'),
+}));
+const engine = new RuleEngine([...DEFAULT_RULES, ...vendorRules]);
+const rules = engine.getRules();
+const unmatched = ['Something unexpected happened', 'Tool call returned malformed arguments', 'Request was cancelled'];
+
+compare('unmatched messages, 135 rules: scan vs filter',
+  (i) => linearScan(rules, unmatched[i % unmatched.length]),
+  (i) => {
+    const message = unmatched[i % unmatched.length];
+    return engine.match([{ message, source: message }]);
+  });
@@ -0,0 +1,126 @@
+/**
+ * Adaptive Retry Module
+ *
+ * Learns from observed outcomes per agent and error classification,
+ * stretching delays and trimming retries for failures that keep recurring.
+ */
+
+import { AdaptiveRetryConfig, ErrorClassification } from './types';
+
+/**
+ * Retry adjustment for an agent and classification
+ */
+export interface RetryAdjustment {
+  /** Multiplier applied to the backoff delay */
+  delayMultiplier: number;
+  /** Retry budget after adjustment */
+  maxRetries: number;
+}
+
+/** Default lower bound for the delay multiplier */
+const DEFAULT_MIN_DELAY_MULTIPLIER = 0.5;
+
+/** Default upper bound for the delay multiplier */
+const DEFAULT_MAX_DELAY_MULTIPLIER = 5;
+
+/**
+ * Tracks a delay multiplier per agent and error classification.
+ *
+ * Each failure raises the multiplier by `1 + adjustmentFactor * failureWeight`,
+ * each success on the agent lowers all of its multipliers by
+ * `1 + adjustmentFactor * successWeight`, within the configured bounds.
+ * Multipliers above 1 also shrink the retry budget proportionally.
+ */
+export class AdaptiveRetryController<TClass extends string = ErrorClassification> {
+  private config: AdaptiveRetryConfig;
+  private multipliers = new Map<string, Map<TClass, number>>();
+
+  constructor(config: AdaptiveRetryConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Record a failure of the given classification for an agent
+   */
+  recordFailure(agentName: string, classification: TClass): void {
+    if (!this.config.enabled) return;
+
+    const byClass = this.getAgent(agentName);
+    const current = byClass.get(classification) ?? 1;
+    const factor = 1 + this.config.adjustmentFactor * this.config.failureWeight;
+    byClass.set(classification, this.clamp(current * factor));
+  }
+
+  /**
+   * Record a success for an agent, relaxing all of its multipliers
+   */
+  recordSuccess(agentName: string): void {
+    if (!this.config.enabled) return;
+
+    const byClass = this.getAgent(agentName);
+    const factor = 1 + this.config.adjustmentFactor * this.config.successWeight;
+    for (const [classification, current] of byClass) {
+      byClass.set(classification, this.clamp(current / factor));
+    }
+  }
+
+  /**
+   * Get the current delay multiplier for an agent and classification
+   */
+  getDelayMultiplier(agentName: string, classification: TClass): number {
+    if (!this.config.enabled) return 1;
+    return this.multipliers.get(agentName)?.get(classification) ?? 1;
+  }
+
+  /**
+   * Adjust a base retry budget for an agent and classification
+   */
+  getAdjustment(agentName: string, classification: TClass, maxRetries: number): RetryAdjustment {
+    const delayMultiplier = this.getDelayMultiplier(agentName, classification);
+    return {
+      delayMultiplier,
+      maxRetries: Math.round(maxRetries / Math.max(1, delayMultiplier)),
+    };
+  }
+
+  /**
+   * Forget everything learned, for one agent or all of them
+   */
+  reset(agentName?: string): void {
+    if (agentName === undefined) {
+      this.multipliers.clear();
+    } else {
+      this.multipliers.delete(agentName);
+    }
+  }
+
+  /**
+   * Get (or create) the multipliers for an agent
+   */
+  private getAgent(agentName: string): Map<TClass, number> {
+    let byClass = this.multipliers.get(agentName);
+    if (!byClass) {
+      byClass = new Map();
+      this.multipliers.set(agentName, byClass);
+    }
+    return byClass;
+  }
+
+  /**
+   * Keep a multiplier within the configured bounds
+   */
+  private clamp(value: number): number {
+    const min = this.config.minDelayMultiplier ?? DEFAULT_MIN_DELAY_MULTIPLIER;
+    const max = this.config.maxDelayMultiplier ?? DEFAULT_MAX_DELAY_MULTIPLIER;
+    return Math.min(max, Math.max(min, value));
+  }
+}
+
+/**
+ * Create an adaptive retry controller
+ */
+export function createAdaptiveRetryController<TClass extends string = ErrorClassification>(
+  config: AdaptiveRetryConfig,
+): AdaptiveRetryController<TClass> {
+  return new AdaptiveRetryController<TClass>(config);
+}
@@ -0,0 +1,51 @@
+/**
+ * Backoff Module
+ *
+ * Exponential backoff delay computation with optional jitter.
+ */
+
+import { RetryConfig } from './types';
+
+/**
+ * Options for computing a backoff delay
+ */
+export interface BackoffOptions {
+  /** Delay used for the previous attempt (decorrelated jitter only) */
+  previousDelay?: number;
+  /** Random source returning values in [0, 1) */
+  random?: () => number;
+}
+
+/**
+ * Compute the delay before retry attempt `attempt` (1 = first retry).
+ *
+ * The exponential schedule is `baseDelay * backoffMultiplier^(attempt - 1)`,
+ * capped at `maxDelay`, then jittered according to `jitterStrategy`.
+ */
+export function computeBackoffDelay(
+  config: Pick<RetryConfig<string>, 'baseDelay' | 'maxDelay' | 'backoffMultiplier' | 'jitter' | 'jitterStrategy'>,
+  attempt: number,
+  options: BackoffOptions = {},
+): number {
+  const random = options.random ?? Math.random;
+  const exponential = Math.min(
+    config.maxDelay,
+    config.baseDelay * Math.pow(config.backoffMultiplier, Math.max(0, attempt - 1)),
+  );
+  const strategy = config.jitter ? config.jitterStrategy ?? 'full' : 'none';
+
+  switch (strategy) {
+    case 'full':
+      return Math.floor(random() * exponential);
+    case 'equal':
+      return Math.floor(exponential / 2 + random() * (exponential / 2));
+    case 'decorrelated': {
+      // https://aws.amazon.com/blogs/architecture/exponential-backoff-and-jitter/
+      const previous = options.previousDelay ?? config.baseDelay;
+      const upper = Math.max(config.baseDelay, previous * 3);
+      return Math.floor(Math.min(config.maxDelay, config.baseDelay + random() * (upper - config.baseDelay)));
+    }
+    default:
+      return Math.floor(exponential);
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Circuit Breaker Module
+ *
+ * Per-agent circuit breaker driven by classified errors.
+ */
+
+import {
+  CircuitBreakerConfig,
+  CircuitState,
+  ClassifiedError,
+  ErrorClassification,
+  SystemEvents,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from './types';
+import { TypedEventEmitter } from './events';
+
+/**
+ * Classifications that count towards opening the circuit by default.
+ * Authentication and quality failures say nothing about the agent's availability.
+ */
+export const DEFAULT_TRIP_CLASSIFICATIONS: readonly ErrorClassification[] = [
+  'timeout',
+  'network',
+  'rate_limit',
+  'model',
+  'system',
+];
+
+/**
+ * Options for constructing a CircuitBreaker
+ */
+export interface CircuitBreakerOptions<TClass extends string = ErrorClassification> {
+  /** Classifications that count as failures */
+  tripOn?: readonly TClass[];
+  /** Emitter for `circuit:*` events */
+  events?: TypedEventEmitter<SystemEvents>;
+  /** Clock (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Circuit breaker for a single agent.
+ *
+ * CLOSED: requests flow; `failureThreshold` consecutive counted failures open it.
+ * OPEN: requests are rejected until `recoveryTimeout` has elapsed.
+ * HALF_OPEN: up to `halfOpenAttempts` trial requests; that many successes close
+ * the circuit, any counted failure opens it again.
+ */
+export class CircuitBreaker<TClass extends string = ErrorClassification> {
+  readonly agentName: string;
+  private config: CircuitBreakerConfig;
+  private state: CircuitState = CircuitState.CLOSED;
+  private failureCount = 0;
+  private halfOpenSuccesses = 0;
+  private halfOpenInFlight = 0;
+  private recoveryAttempts = 0;
+  private openedAt = 0;
+  private tripOn: ReadonlySet<string>;
+  private events?: TypedEventEmitter<SystemEvents>;
+  private now: () => number;
+
+  constructor(
+    agentName: string,
+    config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG,
+    options: CircuitBreakerOptions<TClass> = {},
+  ) {
+    this.agentName = agentName;
+    this.config = config;
+    this.tripOn = new Set<string>(options.tripOn ?? DEFAULT_TRIP_CLASSIFICATIONS);
+    this.events = options.events;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Get the current state, moving OPEN to HALF_OPEN once recovery is due
+   */
+  getState(): CircuitState {
+    if (this.state === CircuitState.OPEN && this.now() - this.openedAt >= this.config.recoveryTimeout) {
+      this.transition(CircuitState.HALF_OPEN);
+    }
+    return this.state;
+  }
+
+  /**
+   * Get the number of consecutive counted failures
+   */
+  getFailureCount(): number {
+    return this.failureCount;
+  }
+
+  /**
+   * Check whether a request may be sent, reserving a trial slot when half-open
+   */
+  canExecute(): boolean {
+    switch (this.getState()) {
+      case CircuitState.CLOSED:
+        return true;
+      case CircuitState.HALF_OPEN:
+        if (this.halfOpenInFlight >= this.config.halfOpenAttempts) return false;
+        this.halfOpenInFlight++;
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Record a successful request
+   */
+  recordSuccess(): void {
+    const state = this.getState();
+    if (state === CircuitState.HALF_OPEN) {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+      this.halfOpenSuccesses++;
+      if (this.halfOpenSuccesses >= this.config.halfOpenAttempts) {
+        this.transition(CircuitState.CLOSED);
+      }
+    } else if (state === CircuitState.CLOSED) {
+      this.failureCount = 0;
+    }
+  }
+
+  /**
+   * Record a failed request.
+   * Returns whether the failure counted towards opening the circuit.
+   */
+  recordFailure(error: Pick<ClassifiedError<string, TClass>, 'classification'>): boolean {
+    const state = this.getState();
+    if (state === CircuitState.HALF_OPEN) {
+      this.halfOpenInFlight = Math.max(0, this.halfOpenInFlight - 1);
+    }
+    if (!this.tripOn.has(error.classification)) {
+      return false;
+    }
+
+    this.failureCount++;
+    if (state === CircuitState.HALF_OPEN ||
+        (state === CircuitState.CLOSED && this.failureCount >= this.config.failureThreshold)) {
+      this.transition(CircuitState.OPEN);
+    }
+    return true;
+  }
+
+  /**
+   * Force the circuit back to CLOSED
+   */
+  reset(): void {
+    this.transition(CircuitState.CLOSED);
+  }
+
+  /**
+   * Move to a new state and emit the matching event
+   */
+  private transition(next: CircuitState): void {
+    if (this.state === next) return;
+    this.state = next;
+    this.halfOpenInFlight = 0;
+
+    switch (next) {
+      case CircuitState.OPEN:
+        this.openedAt = this.now();
+        this.events?.emit('circuit:opened', {
+          agentName: this.agentName,
+          failureCount: this.failureCount,
+          threshold: this.config.failureThreshold,
+        });
+        break;
+      case CircuitState.HALF_OPEN:
+        this.recoveryAttempts++;
+        this.halfOpenSuccesses = 0;
+        this.events?.emit('circuit:half-open', {
+          agentName: this.agentName,
+          attemptNumber: this.recoveryAttempts,
+        });
+        break;
+      case CircuitState.CLOSED: {
+        const successCount = this.halfOpenSuccesses;
+        this.failureCount = 0;
+        this.halfOpenSuccesses = 0;
+        this.recoveryAttempts = 0;
+        this.events?.emit('circuit:closed', { agentName: this.agentName, successCount });
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Create a circuit breaker for an agent
+ */
+export function createCircuitBreaker<TClass extends string = ErrorClassification>(
+  agentName: string,
+  config?: CircuitBreakerConfig,
+  options?: CircuitBreakerOptions<TClass>,
+): CircuitBreaker<TClass> {
+  return new CircuitBreaker<TClass>(agentName, config, options);
+}
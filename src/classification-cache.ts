@@ -0,0 +1,169 @@
+/**
+ * Classification Cache Module
+ *
+ * Caches classifications per Error instance (WeakMap) and per normalized
+ * message and status (bounded LRU), so hot paths and repeated
+ * `isRetryable` / `shouldFallback` calls skip the rule engine.
+ */
+
+import { ErrorDetails } from './error-details';
+
+/**
+ * Options for the classification cache
+ */
+export interface ClassificationCacheOptions {
+  /** Maximum number of entries in the message LRU (default 1000) */
+  maxSize?: number;
+}
+
+/** Default size of the message LRU */
+export const DEFAULT_CACHE_SIZE = 1000;
+
+/**
+ * Least-recently-used map holding at most `maxSize` entries
+ */
+export class LruCache<K, V> {
+  private maxSize: number;
+  // Map iteration follows insertion order, so the first key is the least recently used
+  private entries = new Map<K, V>();
+
+  constructor(maxSize: number = DEFAULT_CACHE_SIZE) {
+    if (!Number.isInteger(maxSize) || maxSize < 1) {
+      throw new RangeError(`LRU cache size must be a positive integer, got ${maxSize}`);
+    }
+    this.maxSize = maxSize;
+  }
+
+  /**
+   * Get a value, marking it as most recently used
+   */
+  get(key: K): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  /**
+   * Store a value, evicting the least recently used entry when full
+   */
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Number of entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/** Ids of the prototypes seen in cache keys */
+const prototypeIds = new WeakMap<object, number>();
+let nextPrototypeId = 0;
+
+/**
+ * Identity of a value's prototype, so that `instanceOf` rules see the same
+ * class for equal keys even when two classes share a name
+ */
+function prototypeKey(source: unknown): string {
+  if (typeof source !== 'object' || source === null) return typeof source;
+  const prototype = Object.getPrototypeOf(source) as object | null;
+  if (prototype === null) return 'null';
+  let id = prototypeIds.get(prototype);
+  if (id === undefined) {
+    id = nextPrototypeId++;
+    prototypeIds.set(prototype, id);
+  }
+  return `#${id}`;
+}
+
+/**
+ * Cache key for an error chain, or undefined when the chain carries more
+ * than a key can capture: causes, response headers (whose `Retry-After`
+ * dates depend on the current time) or a provider body.
+ * Rules with `test` predicates can read any field, so callers must not
+ * use this key when such rules are active.
+ */
+export function normalizedKey(chain: ErrorDetails[]): string | undefined {
+  if (chain.length !== 1) return undefined;
+  const [details] = chain;
+  if (details.headers || details.body) return undefined;
+
+  return [
+    details.status ?? '',
+    prototypeKey(details.source),
+    details.name ?? '',
+    details.code ?? '',
+    details.type ?? '',
+    details.message,
+  ].join('\u0000');
+}
+
+/**
+ * Classifications cached by Error instance and by normalized key,
+ * each under a scope key describing the classify options
+ */
+export class ClassificationCache<T> {
+  private byError = new WeakMap<object, Map<string, T>>();
+  private byKey: LruCache<string, T>;
+
+  constructor(options: ClassificationCacheOptions = {}) {
+    this.byKey = new LruCache(options.maxSize ?? DEFAULT_CACHE_SIZE);
+  }
+
+  /**
+   * Get the classification of an Error instance
+   */
+  getError(error: object, scope: string): T | undefined {
+    return this.byError.get(error)?.get(scope);
+  }
+
+  /**
+   * Store the classification of an Error instance
+   */
+  setError(error: object, scope: string, value: T): void {
+    let entries = this.byError.get(error);
+    if (!entries) {
+      entries = new Map();
+      this.byError.set(error, entries);
+    }
+    entries.set(scope, value);
+  }
+
+  /**
+   * Get a classification by normalized key
+   */
+  get(key: string, scope: string): T | undefined {
+    return this.byKey.get(`${scope}\u0001${key}`);
+  }
+
+  /**
+   * Store a classification by normalized key
+   */
+  set(key: string, scope: string, value: T): void {
+    this.byKey.set(`${scope}\u0001${key}`, value);
+  }
+
+  /**
+   * Drop every cached classification
+   */
+  clear(): void {
+    this.byError = new WeakMap();
+    this.byKey.clear();
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Context Length Module
+ *
+ * Parses token counts from context-length errors and recommends whether to
+ * truncate the request or fall back to an agent with a larger window.
+ */
+
+import { AgentConfig, ClassifiedError, ContextLengthInfo, ErrorClassification, ErrorCode } from './types';
+import { ErrorDetails } from './error-details';
+
+/**
+ * What to do about a context-length failure
+ */
+export type ContextLengthRecommendation =
+  /** Retry on an agent whose context window fits the request */
+  | { action: 'fallback'; agentName: string; contextWindow: number }
+  /** Shorten the request by `tokens` and retry on the same agent */
+  | { action: 'truncate'; tokens: number }
+  /** Not enough information to recommend anything */
+  | { action: 'none' };
+
+/**
+ * Options for recommending a context-length action
+ */
+export interface ContextLengthRecommendationOptions {
+  /** Agent that produced the error; skipped as a fallback target */
+  agentName?: string;
+  /** Prefer truncating even when a larger agent exists (default false) */
+  preferTruncate?: boolean;
+}
+
+/** Parse a number that may contain thousands separators */
+function toNumber(value: string): number {
+  return Number(value.replace(/,/g, ''));
+}
+
+/** Token count, e.g. `8192` or `8,192` */
+const N = '(\\d[\\d,]*)';
+
+/**
+ * Known phrasings, each extracting `limit` and `requested`
+ */
+const PATTERNS: Array<[RegExp, (match: RegExpExecArray) => ContextLengthInfo]> = [
+  // OpenAI: "maximum context length is 8192 tokens. However, your messages resulted in 10234 tokens"
+  [
+    new RegExp(`maximum context length is ${N} tokens.*?(?:resulted in|requested) ${N} tokens`, 'is'),
+    (m) => ({ limit: toNumber(m[1]), requested: toNumber(m[2]) }),
+  ],
+  // Anthropic: "input length and `max_tokens` exceed context limit: 199000 + 4096 > 200000"
+  [
+    new RegExp(`exceed context limit: ${N} \\+ ${N} > ${N}`, 'i'),
+    (m) => ({ limit: toNumber(m[3]), requested: toNumber(m[1]) + toNumber(m[2]) }),
+  ],
+  // Anthropic: "prompt is too long: 215000 tokens > 200000 maximum"
+  [
+    new RegExp(`${N} tokens > ${N} maximum`, 'i'),
+    (m) => ({ limit: toNumber(m[2]), requested: toNumber(m[1]) }),
+  ],
+  // Google: "The input token count (1200000) exceeds the maximum number of tokens allowed (1048576)"
+  [
+    new RegExp(`input token count \\(${N}\\) exceeds the maximum number of tokens allowed \\(${N}\\)`, 'i'),
+    (m) => ({ limit: toNumber(m[2]), requested: toNumber(m[1]) }),
+  ],
+  // Limit only: "This model's maximum context length is 128000 tokens"
+  [
+    new RegExp(`maximum context length is ${N} tokens`, 'i'),
+    (m) => ({ limit: toNumber(m[1]) }),
+  ],
+];
+
+/**
+ * Parse the context limit and requested size from an error message
+ */
+export function parseContextLength(message: string): ContextLengthInfo | undefined {
+  for (const [pattern, extract] of PATTERNS) {
+    const match = pattern.exec(message);
+    if (match) {
+      const info = extract(match);
+      return info.limit !== undefined && info.requested !== undefined
+        ? { ...info, overflow: info.requested - info.limit }
+        : info;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find context-length token counts anywhere in an error chain
+ */
+export function extractContextLength(chain: ErrorDetails[]): ContextLengthInfo | undefined {
+  for (const details of chain) {
+    const info = parseContextLength(details.message);
+    if (info) return info;
+  }
+  return undefined;
+}
+
+/**
+ * Recommend how to recover from a context-length failure.
+ *
+ * Falls back to the first agent (by priority) whose `contextWindow` fits the
+ * requested size; otherwise, or with `preferTruncate`, recommends truncating
+ * by the overflow. The overflow is computed from the failing agent's
+ * `contextWindow` when the provider did not report a limit.
+ */
+export function recommendContextLengthAction<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  error: ClassifiedError<TCode, TClass>,
+  agents: readonly AgentConfig[],
+  options: ContextLengthRecommendationOptions = {},
+): ContextLengthRecommendation {
+  const info = error.contextLength;
+  if (error.code !== ErrorCode.CONTEXT_LENGTH_EXCEEDED || !info) return { action: 'none' };
+
+  const current = agents.find((agent) => agent.name === options.agentName);
+  const limit = info.limit ?? current?.contextWindow;
+  const overflow = info.overflow ?? (info.requested !== undefined && limit !== undefined
+    ? info.requested - limit
+    : undefined);
+  const truncate: ContextLengthRecommendation | undefined = overflow !== undefined && overflow > 0
+    ? { action: 'truncate', tokens: overflow }
+    : undefined;
+
+  if (options.preferTruncate && truncate) return truncate;
+
+  if (info.requested !== undefined) {
+    const target = [...agents]
+      .sort((a, b) => a.priority - b.priority)
+      .find((agent) => agent.name !== options.agentName &&
+        agent.contextWindow !== undefined && agent.contextWindow >= info.requested!);
+    if (target) {
+      return { action: 'fallback', agentName: target.name, contextWindow: target.contextWindow! };
+    }
+  }
+
+  return truncate ?? { action: 'none' };
+}
@@ -0,0 +1,106 @@
+/**
+ * Default Classification Rules
+ *
+ * Built-in rules used by every ErrorClassifier unless replaced.
+ * Structured fields (provider type, status, system code) are checked
+ * across the whole cause chain before any message text.
+ */
+
+import { ErrorCode } from './types';
+import { ErrorRule, RULE_PRIORITY } from './rule-engine';
+
+/**
+ * Provider error types found in JSON error bodies
+ */
+const PROVIDER_TYPE_RULES: ErrorRule[] = [
+  { id: 'type:overloaded', code: ErrorCode.MODEL_OVERLOADED, errorType: 'overloaded_error' },
+  { id: 'type:rate-limit', code: ErrorCode.RATE_LIMIT, errorType: ['rate_limit_error', 'rate_limit_exceeded'] },
+  { id: 'type:quota', code: ErrorCode.QUOTA_EXCEEDED, errorType: 'insufficient_quota' },
+  {
+    id: 'type:context-length',
+    code: ErrorCode.CONTEXT_LENGTH_EXCEEDED,
+    errorType: ['context_length_exceeded', 'request_too_large'],
+  },
+  { id: 'type:authentication', code: ErrorCode.INVALID_API_KEY, errorType: ['authentication_error', 'invalid_api_key'] },
+  { id: 'type:permission', code: ErrorCode.PERMISSION_DENIED, errorType: 'permission_error' },
+  { id: 'type:not-found', code: ErrorCode.MODEL_NOT_FOUND, errorType: ['not_found_error', 'model_not_found'] },
+  { id: 'type:server', code: ErrorCode.INTERNAL_ERROR, errorType: ['api_error', 'server_error'] },
+].map((rule) => ({ ...rule, priority: RULE_PRIORITY.PROVIDER_TYPE }));
+
+/**
+ * HTTP status codes with an unambiguous meaning
+ */
+const STATUS_RULES: ErrorRule[] = [
+  { id: 'status:unauthorized', code: ErrorCode.INVALID_API_KEY, status: 401 },
+  { id: 'status:forbidden', code: ErrorCode.PERMISSION_DENIED, status: 403 },
+  { id: 'status:not-found', code: ErrorCode.MODEL_NOT_FOUND, status: 404 },
+  { id: 'status:timeout', code: ErrorCode.TIMEOUT, status: [408, 504] },
+  { id: 'status:too-large', code: ErrorCode.CONTEXT_LENGTH_EXCEEDED, status: 413 },
+  { id: 'status:rate-limit', code: ErrorCode.RATE_LIMIT, status: 429 },
+  { id: 'status:server', code: ErrorCode.INTERNAL_ERROR, status: 500 },
+  { id: 'status:unavailable', code: ErrorCode.SERVICE_UNAVAILABLE, status: [502, 503] },
+  { id: 'status:overloaded', code: ErrorCode.MODEL_OVERLOADED, status: 529 },
+].map((rule) => ({ ...rule, priority: RULE_PRIORITY.STATUS }));
+
+/**
+ * Node.js / undici system error codes
+ */
+const SYSTEM_CODE_RULES: ErrorRule[] = [
+  {
+    id: 'errno:connection',
+    code: ErrorCode.CONNECTION_ERROR,
+    errorCode: ['ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH', 'UND_ERR_SOCKET'],
+  },
+  { id: 'errno:dns', code: ErrorCode.DNS_ERROR, errorCode: ['ENOTFOUND', 'EAI_AGAIN'] },
+  {
+    id: 'errno:timeout',
+    code: ErrorCode.TIMEOUT,
+    errorCode: ['ETIMEDOUT', 'ESOCKETTIMEDOUT', 'UND_ERR_CONNECT_TIMEOUT', 'UND_ERR_HEADERS_TIMEOUT', 'UND_ERR_BODY_TIMEOUT'],
+  },
+].map((rule) => ({ ...rule, priority: RULE_PRIORITY.SYSTEM_CODE }));
+
+/**
+ * Error names and constructors
+ */
+const NAME_RULES: ErrorRule[] = [
+  // Aborted requests are almost always client-side timeouts
+  { id: 'name:abort', code: ErrorCode.TIMEOUT, name: /^(AbortError|TimeoutError)$/ },
+  { id: 'name:timeout', code: ErrorCode.TIMEOUT, name: /timeout/i },
+  // fetch() reports network failures as a bare `TypeError: fetch failed`
+  { id: 'name:fetch-failed', code: ErrorCode.CONNECTION_ERROR, instanceOf: TypeError, message: /fetch failed|failed to fetch/i },
+].map((rule) => ({ ...rule, priority: RULE_PRIORITY.NAME }));
+
+/**
+ * Message keywords, in evaluation order
+ */
+const MESSAGE_RULES: ErrorRule[] = [
+  { id: 'message:timeout', code: ErrorCode.TIMEOUT, message: /timeout|timed out/i },
+  { id: 'message:rate-limit', code: ErrorCode.RATE_LIMIT, message: /rate[ _]limit|too many requests/i },
+  // Checked before quota so "context length exceeded" is not read as a quota error
+  {
+    id: 'message:context-length',
+    code: ErrorCode.CONTEXT_LENGTH_EXCEEDED,
+    message: /context length|context window|max tokens|token limit/i,
+  },
+  { id: 'message:authentication', code: ErrorCode.INVALID_API_KEY, message: /authentication|unauthorized|api key/i },
+  { id: 'message:quota', code: ErrorCode.QUOTA_EXCEEDED, message: /quota|exceeded|insufficient credits/i },
+  { id: 'message:overloaded', code: ErrorCode.MODEL_OVERLOADED, message: /overloaded/i },
+  { id: 'message:dns', code: ErrorCode.DNS_ERROR, message: /enotfound|getaddrinfo/i },
+  { id: 'message:connection', code: ErrorCode.CONNECTION_ERROR, message: /connection|network|econnrefused/i },
+  { id: 'message:unavailable', code: ErrorCode.SERVICE_UNAVAILABLE, message: /\b503\b|unavailable/i },
+  { id: 'message:empty', code: ErrorCode.EMPTY_RESPONSE, message: /empty|no response/i },
+  { id: 'message:invalid-response', code: ErrorCode.INVALID_RESPONSE, message: /invalid response|parse/i },
+  { id: 'message:permission', code: ErrorCode.PERMISSION_DENIED, message: /permission|forbidden|\b403\b/i },
+  { id: 'message:model-not-found', code: ErrorCode.MODEL_NOT_FOUND, message: /model not found|\b404\b/i },
+].map((rule) => ({ ...rule, priority: RULE_PRIORITY.MESSAGE }));
+
+/**
+ * All built-in rules
+ */
+export const DEFAULT_RULES: readonly ErrorRule[] = [
+  ...PROVIDER_TYPE_RULES,
+  ...STATUS_RULES,
+  ...SYSTEM_CODE_RULES,
+  ...NAME_RULES,
+  ...MESSAGE_RULES,
+];
@@ -0,0 +1,160 @@
+/**
+ * Error Aggregator Module
+ *
+ * Groups classified errors by fingerprint, so alerts fire per incident
+ * rather than per error.
+ */
+
+import { ClassifiedError, ErrorClassification, ErrorCode } from './types';
+import { fingerprintError, normalizeMessage } from './fingerprint';
+
+/**
+ * Options for constructing an ErrorAggregator
+ */
+export interface ErrorAggregatorOptions {
+  /** A group closes once no error joined it for this long, in milliseconds (default 300000) */
+  windowMs?: number;
+  /** Maximum number of open groups; the least recently seen is dropped first (default 1000) */
+  maxGroups?: number;
+  /** Clock (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Errors sharing a fingerprint
+ */
+export interface ErrorGroup<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> {
+  fingerprint: string;
+  code: TCode;
+  classification: TClass;
+  /** Message with volatile tokens replaced by placeholders */
+  normalizedMessage: string;
+  /** Message of the first error in the group */
+  sampleMessage: string;
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+  /** Count per label value, e.g. per agent or provider */
+  labels: Record<string, Record<string, number>>;
+}
+
+/** Default time after which a quiet group closes */
+export const DEFAULT_AGGREGATION_WINDOW_MS = 300000;
+
+/**
+ * Copy a group so callers cannot change the aggregator's state
+ */
+function copyGroup<TCode extends string, TClass extends string>(
+  group: ErrorGroup<TCode, TClass>,
+): ErrorGroup<TCode, TClass> {
+  return {
+    ...group,
+    labels: Object.fromEntries(Object.entries(group.labels).map(([name, values]) => [name, { ...values }])),
+  };
+}
+
+/**
+ * Groups classified errors by fingerprint over a sliding window.
+ * A group stays open while errors keep joining it within `windowMs`
+ * of each other; a later error with the same fingerprint starts a new group.
+ */
+export class ErrorAggregator<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> {
+  private windowMs: number;
+  private maxGroups: number;
+  private now: () => number;
+  // Map iteration follows insertion order, so the first group is the least recently seen
+  private groups = new Map<string, ErrorGroup<TCode, TClass>>();
+
+  constructor(options: ErrorAggregatorOptions = {}) {
+    this.windowMs = options.windowMs ?? DEFAULT_AGGREGATION_WINDOW_MS;
+    this.maxGroups = options.maxGroups ?? 1000;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Add an error to its group, opening one if needed.
+   * `labels` (e.g. `{ agent: 'primary' }`) are counted per group.
+   */
+  record(error: ClassifiedError<TCode, TClass>, labels: Record<string, string> = {}): ErrorGroup<TCode, TClass> {
+    const now = this.now();
+    this.prune(now);
+
+    const fingerprint = error.fingerprint ?? fingerprintError(error);
+    let group = this.groups.get(fingerprint);
+    if (group) {
+      this.groups.delete(fingerprint);
+    } else {
+      group = {
+        fingerprint,
+        code: error.code,
+        classification: error.classification,
+        normalizedMessage: normalizeMessage(error.message),
+        sampleMessage: error.message,
+        count: 0,
+        firstSeen: now,
+        lastSeen: now,
+        labels: {},
+      };
+    }
+
+    group.count++;
+    group.lastSeen = now;
+    for (const [name, value] of Object.entries(labels)) {
+      const counts = group.labels[name] ??= {};
+      counts[value] = (counts[value] ?? 0) + 1;
+    }
+
+    this.groups.set(fingerprint, group);
+    if (this.groups.size > this.maxGroups) {
+      this.groups.delete(this.groups.keys().next().value as string);
+    }
+    return copyGroup(group);
+  }
+
+  /**
+   * Open groups, largest first
+   */
+  getGroups(): ErrorGroup<TCode, TClass>[] {
+    this.prune(this.now());
+    return [...this.groups.values()]
+      .sort((a, b) => b.count - a.count || b.lastSeen - a.lastSeen)
+      .map(copyGroup);
+  }
+
+  /**
+   * Get an open group by fingerprint
+   */
+  getGroup(fingerprint: string): ErrorGroup<TCode, TClass> | undefined {
+    this.prune(this.now());
+    const group = this.groups.get(fingerprint);
+    return group && copyGroup(group);
+  }
+
+  /**
+   * Close all groups
+   */
+  reset(): void {
+    this.groups.clear();
+  }
+
+  /**
+   * Close groups that have been quiet for the whole window
+   */
+  private prune(now: number): void {
+    const cutoff = now - this.windowMs;
+    for (const [fingerprint, group] of this.groups) {
+      // Groups are ordered by lastSeen, so the rest are newer
+      if (group.lastSeen > cutoff) break;
+      this.groups.delete(fingerprint);
+    }
+  }
+}
+
+/**
+ * Create an error aggregator
+ */
+export function createErrorAggregator<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  options?: ErrorAggregatorOptions,
+): ErrorAggregator<TCode, TClass> {
+  return new ErrorAggregator<TCode, TClass>(options);
+}
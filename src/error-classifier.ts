@@ -1,322 +1,659 @@
 /**
  * Error Classifier Module
- * 
+ *
  * Provides error classification and determination of retryability
  * for the agent fallback system.
  */
 
 import {
+  BehaviorOverride,
   ErrorCode,
   ErrorClassification,
   ClassifiedError,
+  ClassificationCandidate,
+  ClassificationTrace,
+  ErrorCodeDefinition,
+  ErrorCodeDefinitions,
   RetryConfig,
+  RetryContext,
+  RetryDecision,
+  RetryStopReason,
+  RuleMatcher,
+  SystemEvents,
+  DEFAULT_ERROR_DEFINITIONS,
 } from './types';
+import { ErrorDetails, extractErrorDetails, walkErrorChain } from './error-details';
+import { ErrorRule, RuleEngine, RuleMatch } from './rule-engine';
+import { DEFAULT_RULES } from './default-rules';
+import { computeBackoffDelay } from './backoff';
+import { extractRateLimitHints } from './rate-limit-hints';
+import { TypedEventEmitter } from './events';
+import { PROVIDER_PROFILES, ProviderProfile } from './provider-profiles';
+import { ClassifiedErrorException } from './serialization';
+import { compilePolicyRule } from './policy';
+import { RetryBudget } from './retry-budget';
+import { extractContextLength } from './context-length';
+import { fingerprintError } from './fingerprint';
+import { getUserMessage, UserMessageOptions } from './user-messages';
+import { LearnedClassifier } from './learned-classifier';
+import { ClassificationCache, ClassificationCacheOptions, normalizedKey } from './classification-cache';
 
 /**
- * Error classifier that determines error characteristics
+ * Options for constructing an ErrorClassifier
  */
-export class ErrorClassifier {
-  private config: RetryConfig;
-
-  // Mapping of error codes to their classifications
-  private static readonly ERROR_CLASSIFICATIONS: Record<ErrorCode, {
-    classification: ErrorClassification;
-    retryable: boolean;
-    shouldFallback: boolean;
-  }> = {
-    // Network errors
-    [ErrorCode.TIMEOUT]: {
-      classification: 'timeout',
-      retryable: true,
-      shouldFallback: true,
-    },
-    [ErrorCode.CONNECTION_ERROR]: {
-      classification: 'network',
-      retryable: true,
-      shouldFallback: true,
-    },
-    [ErrorCode.DNS_ERROR]: {
-      classification: 'network',
-      retryable: true,
-      shouldFallback: true,
-    },
-    
-    // Authentication errors
-    [ErrorCode.AUTHENTICATION_ERROR]: {
-      classification: 'authentication',
-      retryable: false,
-      shouldFallback: false,
-    },
-    [ErrorCode.INVALID_API_KEY]: {
-      classification: 'authentication',
-      retryable: false,
-      shouldFallback: true,
-    },
-    [ErrorCode.PERMISSION_DENIED]: {
-      classification: 'authentication',
-      retryable: false,
-      shouldFallback: false,
-    },
-    
-    // Rate limiting
-    [ErrorCode.RATE_LIMIT]: {
-      classification: 'rate_limit',
-      retryable: true,
-      shouldFallback: true,
-    },
-    [ErrorCode.QUOTA_EXCEEDED]: {
-      classification: 'rate_limit',
-      retryable: false,
-      shouldFallback: true,
-    },
-    
-    // Model errors
-    [ErrorCode.MODEL_NOT_FOUND]: {
-      classification: 'model',
-      retryable: false,
-      shouldFallback: true,
-    },
-    [ErrorCode.MODEL_OVERLOADED]: {
-      classification: 'model',
-      retryable: true,
-      shouldFallback: true,
-    },
-    [ErrorCode.CONTEXT_LENGTH_EXCEEDED]: {
-      classification: 'model',
-      retryable: false,
-      shouldFallback: true,
-    },
-    
-    // Response errors
-    [ErrorCode.INVALID_RESPONSE]: {
-      classification: 'quality',
-      retryable: true,
-      shouldFallback: true,
-    },
-    [ErrorCode.PARSE_ERROR]: {
-      classification: 'quality',
-      retryable: true,
-      shouldFallback: true,
-    },
-    [ErrorCode.EMPTY_RESPONSE]: {
-      classification: 'quality',
-      retryable: true,
-      shouldFallback: true,
-    },
-    
-    // Quality errors
-    [ErrorCode.QUALITY_THRESHOLD_NOT_MET]: {
-      classification: 'quality',
-      retryable: false,
-      shouldFallback: true,
-    },
-    [ErrorCode.LATENCY_TOO_HIGH]: {
-      classification: 'quality',
-      retryable: false,
-      shouldFallback: true,
-    },
-    
-    // System errors
-    [ErrorCode.INTERNAL_ERROR]: {
-      classification: 'system',
-      retryable: true,
-      shouldFallback: false,
-    },
-    [ErrorCode.SERVICE_UNAVAILABLE]: {
-      classification: 'system',
-      retryable: true,
-      shouldFallback: true,
-    },
-    [ErrorCode.UNKNOWN_ERROR]: {
-      classification: 'unknown',
-      retryable: false,
-      shouldFallback: false,
-    },
-    
-    // Custom errors
-    [ErrorCode.CUSTOM_ERROR]: {
-      classification: 'unknown',
-      retryable: false,
-      shouldFallback: false,
-    },
+export interface ErrorClassifierOptions<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> {
+  /** Rule set to start from (defaults to the built-in rules) */
+  rules?: readonly ErrorRule<TCode>[];
+  /** Definitions for user-defined codes and overrides of built-in ones */
+  codes?: ErrorCodeDefinitions<TCode, TClass>;
+  /** Random source for jitter, returning values in [0, 1) */
+  random?: () => number;
+  /** Clock used to resolve `Retry-After` dates (defaults to Date.now) */
+  now?: () => number;
+  /** Emitter that receives an `error:classified` event per classification */
+  events?: TypedEventEmitter<SystemEvents<TCode, TClass>>;
+  /** Additional provider profiles, replacing built-ins with the same name */
+  providers?: readonly ProviderProfile<TCode>[];
+  /** Provider used when `classify()` is not given one */
+  provider?: string;
+  /** Attach a `trace` to every classification (default false) */
+  explain?: boolean;
+  /** Retry budget to share with other classifiers (defaults to one built from `config.retryBudget`) */
+  retryBudget?: RetryBudget;
+  /**
+   * Cache classifications per Error instance and per normalized message and
+   * status (default true). Cleared whenever rules, codes, providers or the
+   * config change; rules with a `test` predicate should only depend on the
+   * error's name, message, status, code and type while it is enabled.
+   */
+  cache?: boolean | ClassificationCacheOptions;
+  /** Attach a localized, sanitized `userMessage` to every classification */
+  userMessages?: UserMessageOptions<TCode, TClass>;
+  /** Text classifier consulted when no rule matches */
+  learned?: LearnedClassifier<TCode>;
+}
+
+/**
+ * Per-call classification options
+ */
+export interface ClassifyOptions {
+  /** Message to report instead of the error's own */
+  message?: string;
+  /** Provider whose profile is applied before the general rules */
+  provider?: string;
+  /** Agent whose retry / fallback overrides apply */
+  agent?: string;
+  /** Attach a `trace` describing how the code was chosen */
+  explain?: boolean;
+  /** Attach a `userMessage` in this locale, overriding `userMessages.locale` */
+  locale?: string;
+  /** Emit `error:classified` (default true); off for classifications the caller may discard */
+  emit?: boolean;
+}
+
+/**
+ * Scope used to select retry / fallback overrides
+ */
+export type OverrideScope = Pick<ClassifyOptions, 'provider' | 'agent'>;
+
+/**
+ * How much a match on each kind of matcher is trusted on its own
+ */
+const MATCHER_CONFIDENCE: Record<RuleMatcher, number> = {
+  errorType: 0.95,
+  errorCode: 0.9,
+  instanceOf: 0.9,
+  status: 0.85,
+  test: 0.8,
+  name: 0.75,
+  message: 0.6,
+};
+
+/**
+ * Score the winning candidate: its strongest matcher, raised by every
+ * corroborating matcher and lowered when other rules disagree
+ */
+function scoreCandidates<TCode extends string>(candidates: ClassificationCandidate<TCode>[]): number {
+  const [winner, ...others] = candidates;
+  if (!winner) return 0;
+  const strongest = Math.max(...winner.matchers.map((matcher) => MATCHER_CONFIDENCE[matcher]));
+  let confidence = Math.min(0.99, strongest + 0.05 * (winner.matchers.length - 1));
+  if (others.some((candidate) => candidate.code !== winner.code)) {
+    confidence *= 0.8;
+  }
+  return Math.round(confidence * 100) / 100;
+}
+
+/**
+ * Convert a rule match into a trace candidate
+ */
+function toCandidate<TCode extends string>(
+  match: RuleMatch<TCode>,
+  source: ClassificationCandidate['source'],
+): ClassificationCandidate<TCode> {
+  return {
+    ruleId: match.rule.id,
+    code: match.rule.code,
+    source,
+    priority: match.rule.priority ?? 0,
+    matchers: match.matchers,
+    ...(match.keyword !== undefined && { keyword: match.keyword }),
+    depth: match.depth,
   };
+}
+
+/**
+ * Describe a candidate on one line
+ */
+function describeCandidate(candidate: ClassificationCandidate<string>): string {
+  const keyword = candidate.keyword !== undefined ? ` "${candidate.keyword}"` : '';
+  const depth = candidate.depth > 0 ? ` at cause depth ${candidate.depth}` : '';
+  return `${candidate.ruleId} -> ${candidate.code} ` +
+    `(${candidate.source}, priority ${candidate.priority}; matched ${candidate.matchers.join(', ')}${keyword}${depth})`;
+}
+
+/**
+ * Error classifier that determines error characteristics.
+ *
+ * `TCode` and `TClass` default to the built-in `ErrorCode` and
+ * `ErrorClassification`; to add your own, widen them with the built-ins,
+ * e.g. `ErrorClassifier<ErrorCode | 'TOOL_CALL_FAILED', ErrorClassification | 'guardrail'>`.
+ */
+export class ErrorClassifier<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> {
+  private config: RetryConfig<TCode, TClass>;
+  private policyRules: RuleEngine<TCode>;
+  private rules: RuleEngine<TCode>;
+  private definitions: Map<TCode, ErrorCodeDefinition<TClass>>;
+  private random: () => number;
+  private now: () => number;
+  private events?: TypedEventEmitter<SystemEvents<TCode, TClass>>;
+  private profiles = new Map<string, RuleEngine<TCode>>();
+  private provider?: string;
+  private explainAll: boolean;
+  private sharedBudget: boolean;
+  private retryBudget?: RetryBudget;
+  private cache?: ClassificationCache<ClassifiedError<TCode, TClass>>;
+  private userMessages?: UserMessageOptions<TCode, TClass>;
+  private learned?: LearnedClassifier<TCode>;
 
-  constructor(config: RetryConfig) {
+  constructor(config: RetryConfig<TCode, TClass>, options: ErrorClassifierOptions<TCode, TClass> = {}) {
     this.config = config;
+    this.policyRules = new RuleEngine((config.policy?.rules ?? []).map(compilePolicyRule));
+    // The built-in rules only produce built-in codes, which TCode is expected to include
+    this.rules = new RuleEngine<TCode>(options.rules ?? (DEFAULT_RULES as readonly ErrorRule<TCode>[]));
+    this.definitions = new Map([
+      ...Object.entries(DEFAULT_ERROR_DEFINITIONS),
+      ...Object.entries(options.codes ?? {}),
+    ] as Array<[TCode, ErrorCodeDefinition<TClass>]>);
+    this.random = options.random ?? Math.random;
+    this.now = options.now ?? Date.now;
+    this.events = options.events;
+    this.provider = options.provider;
+    this.explainAll = options.explain ?? false;
+    this.userMessages = options.userMessages;
+    this.learned = options.learned;
+    this.sharedBudget = options.retryBudget !== undefined;
+    this.retryBudget = options.retryBudget
+      ?? (config.retryBudget ? new RetryBudget(config.retryBudget, { now: this.now }) : undefined);
+    const cache = options.cache ?? true;
+    if (cache !== false) {
+      this.cache = new ClassificationCache(cache === true ? {} : cache);
+    }
+
+    // Built-in profiles only produce built-in codes, which TCode is expected to include
+    const builtIn = Object.values(PROVIDER_PROFILES) as ProviderProfile<TCode>[];
+    for (const profile of [...builtIn, ...options.providers ?? []]) {
+      this.registerProvider(profile);
+    }
   }
 
   /**
-   * Classify an error based on error code or message
+   * Classify an error based on error code or message.
+   * A string second argument is shorthand for `{ message }`.
    */
-  classify(error: Error | ErrorCode | string, customMessage?: string): ClassifiedError {
-    // Handle different input types
-    let errorCode: ErrorCode;
-    let errorMessage: string;
-
-    if (error instanceof Error) {
-      errorCode = this.extractErrorCode(error);
-      errorMessage = error.message;
-    } else if (typeof error === 'string') {
-      errorCode = this.determineErrorCodeFromMessage(error);
-      errorMessage = error;
-    } else {
-      errorCode = error;
-      errorMessage = customMessage || error;
-    }
+  classify(error: Error | TCode | string, options: ClassifyOptions | string = {}): ClassifiedError<TCode, TClass> {
+    const resolved = typeof options === 'string' ? { message: options } : options;
+    const classified = this.resolve(error, resolved);
+    const provider = resolved.provider ?? this.provider;
+    if (resolved.emit === false) return classified;
 
-    // Get base classification
-    const classification = ErrorClassifier.ERROR_CLASSIFICATIONS[errorCode] || {
-      classification: 'unknown' as ErrorClassification,
-      retryable: false,
-      shouldFallback: false,
-    };
+    this.events?.emit('error:classified', {
+      error: classified.code,
+      classification: classified.classification,
+      retryable: classified.retryable,
+      shouldFallback: classified.shouldFallback,
+      ...(resolved.agent !== undefined && { agentName: resolved.agent }),
+      ...(provider !== undefined && { provider }),
+    });
 
-    // Check custom fallback errors from config
-    const shouldFallback = classification.shouldFallback || 
-      (this.config.fallbackOnErrors?.includes(errorCode) ?? false);
+    return classified;
+  }
 
-    // Check custom retryable errors from config
-    const retryable = classification.retryable || 
-      (this.config.retryableErrors?.includes(errorCode) ?? false);
+  /**
+   * Describe how an error is classified: the chosen code, confidence,
+   * winning rule and every other rule that matched.
+   * Does not emit `error:classified`.
+   */
+  explain(error: Error | TCode | string, options: ClassifyOptions = {}): string {
+    const classified = this.resolve(error, { ...options, explain: true });
+    const trace = classified.trace!;
+    const lines = [
+      `${classified.code} (${classified.classification}, ` +
+        `${classified.retryable ? 'retryable' : 'not retryable'}, ` +
+        `${classified.shouldFallback ? 'fallback' : 'no fallback'}) confidence ${trace.confidence}`,
+    ];
 
-    return {
-      code: errorCode,
-      classification: classification.classification,
-      retryable,
-      shouldFallback,
-      message: errorMessage,
-    };
+    if (trace.source === 'code') {
+      lines.push('  known error code passed directly');
+    } else if (trace.source === 'fallback') {
+      lines.push('  no rule matched');
+    } else if (trace.source === 'learned') {
+      lines.push('  no rule matched; predicted by the learned classifier');
+    } else {
+      lines.push(`  matched ${describeCandidate(trace.matched!)}`);
+    }
+    if (trace.candidates.length > 1) {
+      lines.push('  candidates:');
+      for (const candidate of trace.candidates) {
+        lines.push(`    ${candidate === trace.matched ? '*' : '-'} ${describeCandidate(candidate)}`);
+      }
+    }
+    return lines.join('\n');
   }
 
   /**
    * Check if an error is retryable
    */
-  isRetryable(error: Error | ErrorCode | string): boolean {
-    const classified = this.classify(error);
+  isRetryable(error: Error | TCode | string, options?: ClassifyOptions): boolean {
+    const classified = this.classify(error, options);
     return classified.retryable;
   }
 
   /**
    * Check if an error should trigger fallback
    */
-  shouldFallback(error: Error | ErrorCode | string): boolean {
-    const classified = this.classify(error);
+  shouldFallback(error: Error | TCode | string, options?: ClassifyOptions): boolean {
+    const classified = this.classify(error, options);
     return classified.shouldFallback;
   }
 
   /**
-   * Extract error code from an Error object
+   * Decide whether to make retry attempt `attempt` (1 = first retry)
+   * and how long to wait before it. Only asks: no budget is spent.
    */
-  private extractErrorCode(error: Error): ErrorCode {
-    const message = error.message.toLowerCase();
-    const name = error.name.toLowerCase();
+  getRetryDecision(
+    error: Error | TCode | string,
+    attempt: number,
+    context: RetryContext = {},
+  ): RetryDecision<TCode, TClass> {
+    return this.planRetry(this.classify(error), attempt, context);
+  }
 
-    // Check for timeout
-    if (message.includes('timeout') || name.includes('timeout')) {
-      return ErrorCode.TIMEOUT;
-    }
+  /**
+   * Apply the retry / fallback overrides for a provider and agent to an
+   * existing classification, e.g. one made without knowing the agent
+   */
+  applyOverrides(
+    classified: ClassifiedError<TCode, TClass>,
+    scope: OverrideScope,
+  ): ClassifiedError<TCode, TClass> {
+    return {
+      ...classified,
+      ...this.overrideBehavior(classified.code, classified.classification, classified, scope),
+    };
+  }
 
-    // Check for rate limit
-    if (message.includes('rate limit') || message.includes('rate_limit') || 
-        message.includes('too many requests')) {
-      return ErrorCode.RATE_LIMIT;
-    }
+  /**
+   * Make a retry decision for an error that has already been classified,
+   * spending the retry from the budget and token bucket when it is allowed
+   */
+  decideRetry(
+    classified: ClassifiedError<TCode, TClass>,
+    attempt: number,
+    context: RetryContext = {},
+  ): RetryDecision<TCode, TClass> {
+    const decision = this.planRetry(classified, attempt, context);
+    if (decision.retry) this.commitRetry(context);
+    return decision;
+  }
 
-    // Check for authentication
-    if (message.includes('authentication') || message.includes('unauthorized') ||
-        message.includes('invalid api key') || message.includes('api key')) {
-      return ErrorCode.INVALID_API_KEY;
+  /**
+   * Make a retry decision without spending anything.
+   * Call `commitRetry` once the retry is actually going to happen.
+   */
+  planRetry(
+    classified: ClassifiedError<TCode, TClass>,
+    attempt: number,
+    context: RetryContext = {},
+  ): RetryDecision<TCode, TClass> {
+    const stop = (reason: RetryStopReason): RetryDecision<TCode, TClass> =>
+      ({ retry: false, delay: 0, attempt, reason, error: classified });
+
+    if (!classified.retryable) return stop('not_retryable');
+    if (attempt > (context.maxRetries ?? this.config.maxRetries)) return stop('max_retries_exceeded');
+
+    let delay: number;
+    // A provider-supplied wait takes precedence over the exponential schedule
+    if (classified.retryAfterMs !== undefined) {
+      if (classified.retryAfterMs > this.config.maxDelay) return stop('retry_after_exceeds_max_delay');
+      delay = classified.retryAfterMs;
+    } else {
+      const backoff = computeBackoffDelay(this.config, attempt, {
+        previousDelay: context.previousDelay,
+        random: this.random,
+      });
+      delay = Math.min(this.config.maxDelay, Math.round(backoff * (context.delayMultiplier ?? 1)));
     }
 
-    // Check for quota
-    if (message.includes('quota') || message.includes('exceeded') ||
-        message.includes('insufficient credits')) {
-      return ErrorCode.QUOTA_EXCEEDED;
+    if (context.remainingMs !== undefined && delay >= context.remainingMs) return stop('deadline_exceeded');
+    if (this.retryBudget && this.retryBudget.getRemaining() < 1) return stop('budget_exhausted');
+    if (context.tokenBucket && context.tokenBucket.getAvailable() < 1) return stop('budget_exhausted');
+
+    return { retry: true, delay, attempt, error: classified };
+  }
+
+  /**
+   * Spend a retry allowed by `planRetry`: one retry from the budget and
+   * one token from `context.tokenBucket`
+   */
+  commitRetry(context: Pick<RetryContext, 'tokenBucket'> = {}): void {
+    context.tokenBucket?.tryTake();
+    this.retryBudget?.tryRetry();
+  }
+
+  /**
+   * Record a request (first attempt) towards the retry budget.
+   * Callers using `decideRetry` directly should call this once per request.
+   */
+  recordRequest(): void {
+    this.retryBudget?.recordRequest();
+  }
+
+  /**
+   * Register a user-defined error code, or override a built-in one
+   */
+  registerCode(code: TCode, definition: ErrorCodeDefinition<TClass>): void {
+    this.definitions.set(code, definition);
+    this.cache?.clear();
+  }
+
+  /**
+   * Get the definition for an error code, with policy overrides applied.
+   * Codes produced by a rule but never registered are treated as unknown.
+   */
+  getDefinition(code: TCode): ErrorCodeDefinition<TClass> {
+    const definition = this.definitions.get(code)
+      ?? (DEFAULT_ERROR_DEFINITIONS[ErrorCode.UNKNOWN_ERROR] as ErrorCodeDefinition<TClass>);
+    const override = this.config.policy?.codes?.[code];
+    return override ? { ...definition, ...override } : definition;
+  }
+
+  /**
+   * Register a provider profile, replacing any profile with the same name
+   */
+  registerProvider(profile: ProviderProfile<TCode>): void {
+    this.profiles.set(profile.name.toLowerCase(), new RuleEngine(profile.rules));
+    this.cache?.clear();
+  }
+
+  /**
+   * Register a rule, replacing any existing rule with the same id
+   */
+  addRule(rule: ErrorRule<TCode>): void {
+    this.rules.addRule(rule);
+    this.cache?.clear();
+  }
+
+  /**
+   * Remove a rule by id
+   */
+  removeRule(id: string): boolean {
+    const removed = this.rules.removeRule(id);
+    if (removed) this.cache?.clear();
+    return removed;
+  }
+
+  /**
+   * Get the active rules in evaluation order
+   */
+  getRules(): ErrorRule<TCode>[] {
+    return [...this.rules.getRules()];
+  }
+
+  /**
+   * Update the configuration, replacing any previous policy
+   */
+  setConfig(config: RetryConfig<TCode, TClass>): void {
+    if (!this.sharedBudget && config.retryBudget !== this.config.retryBudget) {
+      this.retryBudget = config.retryBudget ? new RetryBudget(config.retryBudget, { now: this.now }) : undefined;
     }
+    this.config = config;
+    this.policyRules = new RuleEngine((config.policy?.rules ?? []).map(compilePolicyRule));
+    this.cache?.clear();
+  }
 
-    // Check for model overloaded
-    if (message.includes('overloaded') || message.includes('model overloaded')) {
-      return ErrorCode.MODEL_OVERLOADED;
+  /**
+   * Replace the learned classifier, e.g. with a retrained model
+   */
+  setLearnedClassifier(learned: LearnedClassifier<TCode> | undefined): void {
+    this.learned = learned;
+    this.cache?.clear();
+  }
+
+  /**
+   * Drop all cached classifications, e.g. after mutating a registered rule
+   */
+  clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Layer the configured overrides over base retry / fallback behaviour
+   */
+  private overrideBehavior(
+    code: TCode,
+    classification: TClass,
+    base: Required<BehaviorOverride>,
+    scope: OverrideScope,
+  ): Required<BehaviorOverride> {
+    const overrides = this.config.policy?.overrides;
+    if (!overrides) return { retryable: base.retryable, shouldFallback: base.shouldFallback };
+
+    const provider = scope.provider?.toLowerCase();
+    const providerScope = provider !== undefined
+      ? Object.entries(overrides.providers ?? {}).find(([name]) => name.toLowerCase() === provider)?.[1]
+      : undefined;
+    const agentScope = scope.agent !== undefined ? overrides.agents?.[scope.agent] : undefined;
+
+    const result = { retryable: base.retryable, shouldFallback: base.shouldFallback };
+    for (const layer of [overrides, providerScope, agentScope]) {
+      for (const override of [layer?.classifications?.[classification], layer?.codes?.[code]]) {
+        if (override?.retryable !== undefined) result.retryable = override.retryable;
+        if (override?.shouldFallback !== undefined) result.shouldFallback = override.shouldFallback;
+      }
     }
+    return result;
+  }
 
-    // Check for context length
-    if (message.includes('context length') || message.includes('max tokens') ||
-        message.includes('token limit')) {
-      return ErrorCode.CONTEXT_LENGTH_EXCEEDED;
+  /**
+   * Classify without emitting events, using the cache when possible
+   */
+  private resolve(error: Error | TCode | string, options: ClassifyOptions): ClassifiedError<TCode, TClass> {
+    const { message: customMessage, provider = this.provider, explain = this.explainAll } = options;
+
+    // Already classified, possibly in another process: keep the classification
+    if (error instanceof ClassifiedErrorException) {
+      const { trace: _trace, ...carried } = error.classified as ClassifiedError<TCode, TClass>;
+      return this.withUserMessage({
+        ...carried,
+        message: customMessage || carried.message,
+        ...(explain && { trace: { confidence: 1, source: 'code' as const, candidates: [] } }),
+      }, options);
     }
 
-    // Check for connection errors
-    if (message.includes('connection') || message.includes('network') ||
-        message.includes('ECONNREFUSED') || message.includes('ENOTFOUND')) {
-      return ErrorCode.CONNECTION_ERROR;
+    if (typeof error === 'string' && this.definitions.has(error as TCode)) {
+      return this.build(error as TCode, customMessage || error, options, {
+        ...(explain && { trace: { confidence: 1, source: 'code', candidates: [] } }),
+      });
     }
 
-    // Check for service unavailable
-    if (message.includes('503') || message.includes('service unavailable') ||
-        message.includes('unavailable')) {
-      return ErrorCode.SERVICE_UNAVAILABLE;
+    const cache = this.cache;
+    const scope = cache &&
+      [provider?.toLowerCase(), options.agent, customMessage, explain, options.locale].join('\u0000');
+    if (cache && scope !== undefined && typeof error === 'object') {
+      const cached = cache.getError(error, scope);
+      if (cached) return { ...cached };
     }
 
-    // Check for empty response
-    if (message.includes('empty') || message.includes('no response')) {
-      return ErrorCode.EMPTY_RESPONSE;
+    // Error objects and free-form messages go through the same rules
+    const chain = typeof error === 'string'
+      ? [extractErrorDetails(error)]
+      : walkErrorChain(error).map(extractErrorDetails);
+    // `test` predicates may read fields the key does not capture
+    const profile = provider !== undefined ? this.profiles.get(provider.toLowerCase()) : undefined;
+    const keyable = ![this.policyRules, profile, this.rules].some((engine) => engine?.hasPredicates());
+    const key = scope !== undefined && keyable ? normalizedKey(chain) : undefined;
+    if (cache && scope !== undefined && key !== undefined) {
+      const cached = cache.get(key, scope);
+      if (cached) return { ...cached };
     }
 
-    // Check for invalid response
-    if (message.includes('invalid response') || message.includes('parse')) {
-      return ErrorCode.INVALID_RESPONSE;
+    const classified = this.resolveChain(chain, options);
+    // Header hints may be HTTP dates, which resolve differently over time
+    if (cache && scope !== undefined && !chain.some((details) => details.headers)) {
+      if (typeof error === 'object') cache.setError(error, scope, classified);
+      if (key !== undefined) cache.set(key, scope, classified);
     }
+    return { ...classified };
+  }
 
-    // Check for permission denied
-    if (message.includes('permission') || message.includes('forbidden') ||
-        message.includes('403')) {
-      return ErrorCode.PERMISSION_DENIED;
+  /**
+   * Classify an error chain with the policy, provider and general rules,
+   * then the learned classifier
+   */
+  private resolveChain(chain: ErrorDetails[], options: ClassifyOptions): ClassifiedError<TCode, TClass> {
+    const { message: customMessage, provider = this.provider, explain = this.explainAll } = options;
+    const profile = provider !== undefined ? this.profiles.get(provider.toLowerCase()) : undefined;
+    const stages: Array<[ClassificationCandidate['source'], RuleEngine<TCode> | undefined]> = [
+      ['policy', this.policyRules],
+      ['provider', profile],
+      ['rules', this.rules],
+    ];
+    let errorCode: TCode;
+    let trace: ClassificationTrace<TCode> | undefined;
+    let matched: boolean;
+
+    if (explain) {
+      const candidates = stages.flatMap(([source, engine]) =>
+        (engine?.matchAll(chain) ?? []).map((match) => toCandidate(match, source)));
+      const winner = candidates[0];
+      matched = winner !== undefined;
+      errorCode = winner?.code ?? (ErrorCode.UNKNOWN_ERROR as TCode);
+      trace = {
+        confidence: scoreCandidates(candidates),
+        source: winner?.source ?? 'fallback',
+        ...(winner && { matched: winner }),
+        candidates,
+      };
+    } else {
+      let match: RuleMatch<TCode> | undefined;
+      for (const [, engine] of stages) {
+        match = engine?.match(chain);
+        if (match) break;
+      }
+      matched = match !== undefined;
+      errorCode = match?.rule.code ?? (ErrorCode.UNKNOWN_ERROR as TCode);
     }
 
-    // Check for model not found
-    if (message.includes('model not found') || message.includes('404')) {
-      return ErrorCode.MODEL_NOT_FOUND;
+    // Last resort for messages no rule covers
+    const prediction = !matched
+      ? this.learned?.predict(chain.map((details) => details.message).join('\n'))
+      : undefined;
+    const learned = prediction && prediction.code !== ErrorCode.UNKNOWN_ERROR && this.definitions.has(prediction.code)
+      ? prediction
+      : undefined;
+    if (learned) {
+      errorCode = learned.code;
+      if (trace) trace = { confidence: Math.round(learned.confidence * 100) / 100, source: 'learned', candidates: [] };
     }
 
-    // Default to unknown error
-    return ErrorCode.UNKNOWN_ERROR;
+    const status = chain.find((details) => details.status !== undefined)?.status;
+    const hints = extractRateLimitHints(chain, this.now());
+    const contextLength = errorCode === ErrorCode.CONTEXT_LENGTH_EXCEEDED ? extractContextLength(chain) : undefined;
+    return this.build(errorCode, customMessage || chain[0].message, options, {
+      ...(status !== undefined && { status }),
+      ...(hints.retryAfterMs !== undefined && { retryAfterMs: hints.retryAfterMs }),
+      ...(hints.rateLimit && { rateLimit: hints.rateLimit }),
+      ...(contextLength && { contextLength }),
+      ...(learned && { confidence: learned.confidence }),
+      ...(trace && { trace }),
+    });
   }
 
   /**
-   * Determine error code from error message string
+   * Combine a code's definition, the configured lists and overrides
+   * with the details found for it
    */
-  private determineErrorCodeFromMessage(message: string): ErrorCode {
-    const lowerMessage = message.toLowerCase();
+  private build(
+    errorCode: TCode,
+    errorMessage: string,
+    options: ClassifyOptions,
+    extra: Partial<ClassifiedError<TCode, TClass>>,
+  ): ClassifiedError<TCode, TClass> {
+    // Get base classification
+    const classification = this.getDefinition(errorCode);
 
-    if (lowerMessage.includes('timeout')) return ErrorCode.TIMEOUT;
-    if (lowerMessage.includes('rate limit')) return ErrorCode.RATE_LIMIT;
-    if (lowerMessage.includes('authentication') || lowerMessage.includes('api key')) {
-      return ErrorCode.INVALID_API_KEY;
-    }
-    if (lowerMessage.includes('quota')) return ErrorCode.QUOTA_EXCEEDED;
-    if (lowerMessage.includes('overloaded')) return ErrorCode.MODEL_OVERLOADED;
-    if (lowerMessage.includes('context length')) return ErrorCode.CONTEXT_LENGTH_EXCEEDED;
-    if (lowerMessage.includes('connection')) return ErrorCode.CONNECTION_ERROR;
-    if (lowerMessage.includes('unavailable')) return ErrorCode.SERVICE_UNAVAILABLE;
-    if (lowerMessage.includes('empty')) return ErrorCode.EMPTY_RESPONSE;
-    if (lowerMessage.includes('invalid response')) return ErrorCode.INVALID_RESPONSE;
-    if (lowerMessage.includes('permission')) return ErrorCode.PERMISSION_DENIED;
-    if (lowerMessage.includes('model not found')) return ErrorCode.MODEL_NOT_FOUND;
-
-    return ErrorCode.CUSTOM_ERROR;
+    // Check custom fallback errors from config
+    const shouldFallback = classification.shouldFallback ||
+      (this.config.fallbackOnErrors?.includes(errorCode) ?? false);
+
+    // Check custom retryable errors from config
+    const retryable = classification.retryable ||
+      (this.config.retryableErrors?.includes(errorCode) ?? false);
+
+    return this.withUserMessage({
+      code: errorCode,
+      classification: classification.classification,
+      ...this.overrideBehavior(errorCode, classification.classification, { retryable, shouldFallback }, {
+        provider: options.provider ?? this.provider,
+        agent: options.agent,
+      }),
+      message: errorMessage,
+      fingerprint: fingerprintError({ code: errorCode, message: errorMessage }),
+      ...extra,
+    }, options);
   }
 
   /**
-   * Update the configuration
+   * Add the localized user message when user messages are enabled or a locale is given
    */
-  setConfig(config: RetryConfig): void {
-    this.config = config;
+  private withUserMessage(
+    classified: ClassifiedError<TCode, TClass>,
+    options: ClassifyOptions,
+  ): ClassifiedError<TCode, TClass> {
+    if (!this.userMessages && options.locale === undefined) return classified;
+    return {
+      ...classified,
+      userMessage: getUserMessage(classified, {
+        ...this.userMessages,
+        ...(options.locale !== undefined && { locale: options.locale }),
+      }),
+    };
   }
 }
 
 /**
  * Create a default error classifier with default config
  */
-export function createErrorClassifier(config: RetryConfig): ErrorClassifier {
-  return new ErrorClassifier(config);
+export function createErrorClassifier<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+>(config: RetryConfig<TCode, TClass>, options?: ErrorClassifierOptions<TCode, TClass>): ErrorClassifier<TCode, TClass> {
+  return new ErrorClassifier<TCode, TClass>(config, options);
 }
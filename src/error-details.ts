@@ -0,0 +1,203 @@
+/**
+ * Error Details Module
+ *
+ * Extracts structured fields (HTTP status, errno codes, provider error
+ * bodies) from thrown values and walks `cause` / `AggregateError` chains.
+ */
+
+/**
+ * Structured information extracted from a single error node
+ */
+export interface ErrorDetails {
+  /** Error name (e.g. 'AbortError', 'TypeError') */
+  name?: string;
+  /** Error message */
+  message: string;
+  /** HTTP status code */
+  status?: number;
+  /** Node / SDK error code (e.g. 'ECONNRESET') */
+  code?: string;
+  /** Numeric errno */
+  errno?: number;
+  /** Provider error type (e.g. 'overloaded_error') */
+  type?: string;
+  /** Response headers, with lowercased names */
+  headers?: Record<string, string>;
+  /** Provider JSON error body */
+  body?: Record<string, unknown>;
+  /** The raw value the details were extracted from */
+  source: unknown;
+}
+
+/** Maximum depth when walking nested causes */
+const MAX_CHAIN_DEPTH = 8;
+
+/**
+ * Check whether a value is a non-null object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Read a string property from an object
+ */
+function readString(obj: Record<string, unknown>, key: string): string | undefined {
+  const value = obj[key];
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Read a numeric status from an object, accepting numeric strings
+ */
+function readStatus(obj: Record<string, unknown>, key: string): number | undefined {
+  const value = obj[key];
+  if (typeof value === 'number' && Number.isInteger(value)) return value;
+  if (typeof value === 'string' && /^\d{3}$/.test(value)) return Number(value);
+  return undefined;
+}
+
+/**
+ * Normalize a `Headers` instance or plain header record to lowercased names
+ */
+function readHeaders(value: unknown): Record<string, string> | undefined {
+  if (!isObject(value)) return undefined;
+
+  const headers: Record<string, string> = {};
+  if (typeof value.forEach === 'function' && typeof value.get === 'function') {
+    (value as unknown as { forEach(cb: (v: string, k: string) => void): void })
+      .forEach((v, k) => { headers[k.toLowerCase()] = v; });
+  } else {
+    for (const [key, raw] of Object.entries(value)) {
+      if (typeof raw === 'string' || typeof raw === 'number') {
+        headers[key.toLowerCase()] = String(raw);
+      } else if (Array.isArray(raw) && raw.length > 0) {
+        headers[key.toLowerCase()] = String(raw[0]);
+      }
+    }
+  }
+  return Object.keys(headers).length > 0 ? headers : undefined;
+}
+
+/**
+ * Try to parse a provider JSON error body embedded in a message,
+ * e.g. `429 {"type":"error","error":{"type":"rate_limit_error"}}`
+ */
+function parseEmbeddedBody(message: string): Record<string, unknown> | undefined {
+  const start = message.indexOf('{');
+  const end = message.lastIndexOf('}');
+  if (start === -1 || end <= start) return undefined;
+
+  try {
+    const parsed: unknown = JSON.parse(message.slice(start, end + 1));
+    return isObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the provider error type in a JSON error body.
+ *
+ * Handles Anthropic (`{ error: { type } }`), OpenAI (`{ error: { type, code } }`
+ * or a flattened `{ type, code }`) and Google (`{ error: { status } }`) shapes.
+ */
+function findBodyType(body: Record<string, unknown>): string | undefined {
+  const nested = body.error;
+  if (isObject(nested)) {
+    return readString(nested, 'code') ?? readString(nested, 'type') ?? readString(nested, 'status');
+  }
+  const type = readString(body, 'type');
+  return readString(body, 'code') ?? (type === 'error' ? undefined : type);
+}
+
+/**
+ * Find an HTTP status in a JSON error body
+ */
+function findBodyStatus(body: Record<string, unknown>): number | undefined {
+  const nested = body.error;
+  if (isObject(nested)) {
+    return readStatus(nested, 'code') ?? readStatus(nested, 'status');
+  }
+  return readStatus(body, 'status');
+}
+
+/**
+ * Extract structured details from a single thrown value (without walking causes)
+ */
+export function extractErrorDetails(error: unknown): ErrorDetails {
+  if (typeof error === 'string') {
+    return { message: error, source: error };
+  }
+  if (!isObject(error)) {
+    return { message: String(error), source: error };
+  }
+
+  const message = readString(error, 'message') ?? '';
+  const details: ErrorDetails = {
+    name: readString(error, 'name'),
+    message,
+    source: error,
+  };
+
+  const response = isObject(error.response) ? error.response : undefined;
+  // AWS SDK v3 errors carry the status in `$metadata.httpStatusCode`
+  const awsMetadata = isObject(error.$metadata) ? error.$metadata : undefined;
+  details.status = readStatus(error, 'status')
+    ?? readStatus(error, 'statusCode')
+    ?? (response ? readStatus(response, 'status') ?? readStatus(response, 'statusCode') : undefined)
+    ?? (awsMetadata ? readStatus(awsMetadata, 'httpStatusCode') : undefined);
+
+  const headers = readHeaders(error.headers) ?? (response ? readHeaders(response.headers) : undefined);
+  if (headers) details.headers = headers;
+
+  // Node system errors expose a string `code`; some SDKs use `code` for
+  // the provider error type instead, which is picked up below as well.
+  const code = readString(error, 'code');
+  if (code) details.code = code;
+  if (typeof error.errno === 'number') details.errno = error.errno;
+
+  const body = (isObject(error.error) ? error.error : undefined)
+    ?? (response && isObject(response.data) ? response.data : undefined)
+    ?? parseEmbeddedBody(message);
+
+  if (body) details.body = body;
+  details.type = (body ? findBodyType(body) : undefined) ?? readString(error, 'type');
+  if (details.status === undefined && body) {
+    details.status = findBodyStatus(body);
+  }
+
+  return details;
+}
+
+/**
+ * Walk an error and its `cause` / `AggregateError.errors` chain,
+ * outermost first. Cycles and excessive nesting are cut off.
+ */
+export function walkErrorChain(error: unknown): unknown[] {
+  const chain: unknown[] = [];
+  const seen = new Set<unknown>();
+  const queue: Array<{ value: unknown; depth: number }> = [{ value: error, depth: 0 }];
+
+  while (queue.length > 0) {
+    const { value, depth } = queue.shift()!;
+    if (value === undefined || value === null || seen.has(value) || depth > MAX_CHAIN_DEPTH) {
+      continue;
+    }
+    seen.add(value);
+    chain.push(value);
+
+    if (!isObject(value)) continue;
+
+    if (value.cause !== undefined) {
+      queue.push({ value: value.cause, depth: depth + 1 });
+    }
+    if (Array.isArray(value.errors)) {
+      for (const inner of value.errors) {
+        queue.push({ value: inner, depth: depth + 1 });
+      }
+    }
+  }
+
+  return chain;
+}
@@ -0,0 +1,93 @@
+/**
+ * Events Module
+ *
+ * Strongly-typed event emitter for `SystemEvents`.
+ */
+
+import { SystemEvents } from './types';
+
+/**
+ * Listener for a single event type
+ */
+export type EventListener<T> = (payload: T) => void;
+
+/**
+ * Wrapper registered by `once`, remembering the original listener
+ */
+type OnceWrapper<T> = EventListener<T> & { listener: EventListener<T> };
+
+/**
+ * Typed event emitter keyed by event name
+ */
+export class TypedEventEmitter<TEvents extends object = SystemEvents> {
+  private listeners = new Map<keyof TEvents, Set<EventListener<never>>>();
+
+  /**
+   * Subscribe to an event
+   */
+  on<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): this {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as EventListener<never>);
+    return this;
+  }
+
+  /**
+   * Subscribe to the next occurrence of an event only
+   */
+  once<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): this {
+    const wrapper = ((payload: TEvents[K]) => {
+      this.off(event, wrapper);
+      listener(payload);
+    }) as OnceWrapper<TEvents[K]>;
+    wrapper.listener = listener;
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * Unsubscribe from an event
+   */
+  off<K extends keyof TEvents>(event: K, listener: EventListener<TEvents[K]>): this {
+    const set = this.listeners.get(event);
+    if (!set) return this;
+    for (const registered of set) {
+      if (registered === listener || (registered as OnceWrapper<never>).listener === listener) {
+        set.delete(registered);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Remove all listeners, or all listeners for one event
+   */
+  removeAllListeners(event?: keyof TEvents): this {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+    return this;
+  }
+
+  /**
+   * Get the number of listeners for an event
+   */
+  listenerCount(event: keyof TEvents): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Emit an event to all current listeners
+   */
+  emit<K extends keyof TEvents>(event: K, payload: TEvents[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of [...set]) {
+      (listener as EventListener<TEvents[K]>)(payload);
+    }
+  }
+}
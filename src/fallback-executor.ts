@@ -0,0 +1,371 @@
+/**
+ * Fallback Executor Module
+ *
+ * Drives a request through the agents of a fallback chain, retrying each
+ * agent while the classifier allows it and falling back to the next.
+ */
+
+import {
+  AgentAdapter,
+  AgentConfig,
+  AgentRequest,
+  AgentResponse,
+  ClassifiedError,
+  ErrorCode,
+  ExecuteOptions,
+  FallbackChain,
+  RetryConfig,
+  SystemEvents,
+  DEFAULT_RETRY_CONFIG,
+  DEFAULT_TIMEOUT_CONFIG,
+} from './types';
+import { ErrorClassifier } from './error-classifier';
+import { CircuitBreaker } from './circuit-breaker';
+import { TypedEventEmitter } from './events';
+import { QualityGates } from './quality-gates';
+import { AdaptiveRetryController } from './adaptive-retry';
+import { HealthTracker } from './health-tracker';
+import { createTokenBucket, TokenBucket } from './retry-budget';
+import { abortError, sleep } from './sleep';
+
+/**
+ * Options for constructing a FallbackExecutor
+ */
+export interface FallbackExecutorOptions {
+  /** Classifier used for failures (defaults to one built from the config) */
+  classifier?: ErrorClassifier;
+  /** Emitter for retry, fallback, circuit and quality events */
+  events?: TypedEventEmitter<SystemEvents>;
+  /** Quality gate evaluator (defaults to one built from `config.qualityGates`) */
+  qualityGates?: QualityGates;
+  /** Adaptive retry controller (defaults to one built from `config.adaptiveRetry`) */
+  adaptiveRetry?: AdaptiveRetryController;
+  /** Tracker that receives every attempt's outcome */
+  healthTracker?: HealthTracker;
+  /** Clock (defaults to Date.now) */
+  now?: () => number;
+  /** Delay implementation, mainly for tests */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Run a promise with a timeout and abort signal
+ */
+function raceAttempt<T>(promise: Promise<T>, timeoutMs: number, agentName: string, signal?: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(abortError(signal!));
+    };
+    const timer = setTimeout(() => {
+      cleanup();
+      const error = new Error(`Agent "${agentName}" timed out after ${timeoutMs}ms`);
+      error.name = 'TimeoutError';
+      reject(error);
+    }, timeoutMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => { cleanup(); resolve(value); },
+      (error) => { cleanup(); reject(error); },
+    );
+  });
+}
+
+/**
+ * Executes requests against a fallback chain of agents
+ */
+export class FallbackExecutor {
+  private agents: AgentConfig[];
+  private adapters: Map<string, AgentAdapter>;
+  private config: RetryConfig;
+  private classifier: ErrorClassifier;
+  private breakers = new Map<string, CircuitBreaker>();
+  private buckets = new Map<string, TokenBucket>();
+  private events?: TypedEventEmitter<SystemEvents>;
+  private qualityGates?: QualityGates;
+  private adaptiveRetry?: AdaptiveRetryController;
+  private healthTracker?: HealthTracker;
+  private now: () => number;
+  private sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+
+  constructor(
+    chain: FallbackChain,
+    adapters: AgentAdapter[],
+    config: RetryConfig = DEFAULT_RETRY_CONFIG,
+    options: FallbackExecutorOptions = {},
+  ) {
+    this.adapters = new Map(adapters.map((adapter) => [adapter.name, adapter]));
+    for (const agent of chain) {
+      if (!this.adapters.has(agent.name)) {
+        throw new Error(`No adapter registered for agent "${agent.name}"`);
+      }
+    }
+
+    // Lower priority value = tried first; sort is stable for equal priorities
+    this.agents = [...chain].sort((a, b) => a.priority - b.priority);
+    this.config = config;
+    this.events = options.events;
+    this.classifier = options.classifier ?? new ErrorClassifier(config, { events: options.events });
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? sleep;
+    this.qualityGates = options.qualityGates ?? (config.qualityGates
+      ? new QualityGates(config.qualityGates, { classifier: this.classifier, events: this.events })
+      : undefined);
+    this.adaptiveRetry = options.adaptiveRetry
+      ?? (config.adaptiveRetry?.enabled ? new AdaptiveRetryController(config.adaptiveRetry) : undefined);
+
+    if (config.circuitBreaker) {
+      for (const agent of this.agents) {
+        this.breakers.set(agent.name, new CircuitBreaker(agent.name, config.circuitBreaker, {
+          now: this.now,
+          events: this.events,
+        }));
+      }
+    }
+
+    // Agents with a rate limit spend one token per attempt, retries included
+    for (const agent of this.agents) {
+      if (agent.rateLimit !== undefined && agent.rateLimit > 0) {
+        this.buckets.set(agent.name, createTokenBucket(agent.rateLimit, { now: this.now }));
+      }
+    }
+
+    this.healthTracker = options.healthTracker;
+    for (const agent of this.agents) {
+      this.healthTracker?.registerAgent(agent.name, this.breakers.get(agent.name));
+    }
+  }
+
+  /**
+   * Execute a request, retrying and falling back through the chain.
+   * Resolves with the first successful response, or a failed response
+   * describing the last error. Rejects only when aborted.
+   */
+  async execute(request: AgentRequest, options: ExecuteOptions = {}): Promise<AgentResponse> {
+    const startedAt = this.now();
+    const timeouts = this.config.timeout ?? DEFAULT_TIMEOUT_CONFIG;
+    const deadline = startedAt + (options.timeout ?? timeouts.total);
+    const signal = options.abortSignal;
+
+    let attempt = 0;
+    let totalRetries = 0;
+    let lastFailure: { agentName: string; error: ClassifiedError } | undefined;
+
+    for (const agent of this.agents) {
+      const adapter = this.adapters.get(agent.name)!;
+      // After a context-length failure, skip agents known to be too small
+      const requested = lastFailure?.error.contextLength?.requested;
+      if (requested !== undefined && agent.contextWindow !== undefined && agent.contextWindow < requested) {
+        continue;
+      }
+
+      const breaker = this.breakers.get(agent.name);
+      const bucket = this.buckets.get(agent.name);
+      // Check the rate limit first: canExecute() reserves a half-open slot
+      if (bucket && bucket.getAvailable() < 1) {
+        continue;
+      }
+      if (breaker && !breaker.canExecute()) {
+        continue;
+      }
+      bucket?.tryTake();
+      this.classifier.recordRequest();
+
+      if (lastFailure) {
+        this.events?.emit('fallback:triggered', {
+          fromAgent: lastFailure.agentName,
+          toAgent: agent.name,
+          reason: lastFailure.error.code,
+          attemptNumber: attempt + 1,
+        });
+      }
+
+      let retries = 0;
+      let previousDelay: number | undefined;
+
+      for (;;) {
+        if (signal?.aborted) throw abortError(signal);
+
+        const remaining = deadline - this.now();
+        if (remaining <= 0) {
+          return this.failure(
+            agent.name,
+            this.classifier.classify(ErrorCode.TIMEOUT, 'Total timeout exceeded'),
+            startedAt,
+            totalRetries,
+          );
+        }
+
+        attempt++;
+        options.onAttempt?.(attempt, agent.name);
+
+        const attemptStartedAt = this.now();
+        let classified: ClassifiedError;
+        // Gate evaluation records its own outcome towards the error rate
+        let outcomeRecorded = false;
+        try {
+          const response = await raceAttempt(
+            adapter.execute(request),
+            Math.min(timeouts.agent, remaining),
+            agent.name,
+            signal,
+          );
+          const scope = { provider: agent.provider, agent: agent.name };
+          const gateFailure = response.success && !options.skipQualityGates
+            ? this.qualityGates?.evaluate(response, scope).failures[0]
+            : undefined;
+
+          if (response.success && !gateFailure) {
+            breaker?.recordSuccess();
+            this.adaptiveRetry?.recordSuccess(agent.name);
+            this.healthTracker?.recordSuccess(agent.name, response, this.now() - attemptStartedAt);
+            if (retries > 0) {
+              this.events?.emit('retry:success', {
+                agentName: agent.name,
+                totalAttempts: retries + 1,
+                totalLatency: this.now() - startedAt,
+              });
+            }
+            return this.complete({
+              ...response,
+              metadata: { ...response.metadata, latency: this.now() - startedAt, retries: totalRetries },
+            });
+          }
+          outcomeRecorded = gateFailure !== undefined;
+          // Gates classify quietly; count only the failure acted on
+          classified = gateFailure
+            ? this.classifier.classify(gateFailure.error.code, { message: gateFailure.error.message, ...scope })
+            : this.classifier.classify(
+              response.errorCode ?? response.error ?? ErrorCode.UNKNOWN_ERROR,
+              { message: response.error, ...scope },
+            );
+        } catch (error) {
+          if (signal?.aborted) throw abortError(signal);
+          classified = this.classifier.classify(error instanceof Error ? error : String(error), {
+            provider: agent.provider,
+            agent: agent.name,
+          });
+        }
+
+        if (!outcomeRecorded) {
+          this.qualityGates?.recordOutcome(agent.name, false);
+        }
+        breaker?.recordFailure(classified);
+        this.healthTracker?.recordFailure(agent.name, classified, this.now() - attemptStartedAt);
+        lastFailure = { agentName: agent.name, error: classified };
+
+        // Adjust using what was learned before this failure, then learn from it
+        const adjustment = this.adaptiveRetry?.getAdjustment(agent.name, classified.classification, this.config.maxRetries);
+        this.adaptiveRetry?.recordFailure(agent.name, classified.classification);
+
+        const decision = this.classifier.planRetry(classified, retries + 1, {
+          previousDelay,
+          ...adjustment,
+          tokenBucket: bucket,
+          remainingMs: deadline - this.now(),
+        });
+        // The failure may have opened the circuit; half-open retries need a slot too
+        if (decision.retry && (!breaker || breaker.canExecute())) {
+          // Spend the budget only now that the retry is certain
+          this.classifier.commitRetry({ tokenBucket: bucket });
+          retries++;
+          totalRetries++;
+          previousDelay = decision.delay;
+          this.events?.emit('retry:attempt', {
+            agentName: agent.name,
+            attemptNumber: retries,
+            maxRetries: this.config.maxRetries,
+            delay: decision.delay,
+            error: classified.code,
+          });
+          await this.sleep(decision.delay, signal);
+          continue;
+        }
+
+        if (retries > 0) {
+          this.events?.emit('retry:failure', {
+            agentName: agent.name,
+            totalAttempts: retries + 1,
+            finalError: classified.code,
+          });
+        }
+
+        if (!classified.shouldFallback) {
+          return this.failure(agent.name, classified, startedAt, totalRetries);
+        }
+        break;
+      }
+    }
+
+    if (!lastFailure) {
+      return this.failure(
+        this.agents[0]?.name ?? '',
+        this.classifier.classify(ErrorCode.SERVICE_UNAVAILABLE, 'No agent available'),
+        startedAt,
+        totalRetries,
+      );
+    }
+    return this.failure(lastFailure.agentName, lastFailure.error, startedAt, totalRetries);
+  }
+
+  /**
+   * Get the circuit breaker for an agent, if circuit breaking is configured
+   */
+  getCircuitBreaker(agentName: string): CircuitBreaker | undefined {
+    return this.breakers.get(agentName);
+  }
+
+  /**
+   * Build a failed response from a classified error
+   */
+  private failure(agentName: string, error: ClassifiedError, startedAt: number, retries: number): AgentResponse {
+    return this.complete({
+      success: false,
+      content: '',
+      error: error.message,
+      errorCode: error.code,
+      agentName,
+      metadata: {
+        latency: this.now() - startedAt,
+        timestamp: startedAt,
+        retries,
+      },
+    });
+  }
+
+  /**
+   * Record and emit `request:completed` for the final response
+   */
+  private complete(response: AgentResponse): AgentResponse {
+    this.healthTracker?.recordRequest(response.success);
+    this.events?.emit('request:completed', {
+      agentName: response.agentName,
+      success: response.success,
+      latency: response.metadata.latency,
+      retries: response.metadata.retries,
+      ...(response.errorCode !== undefined && { errorCode: response.errorCode }),
+    });
+    return response;
+  }
+}
+
+/**
+ * Create a fallback executor
+ */
+export function createFallbackExecutor(
+  chain: FallbackChain,
+  adapters: AgentAdapter[],
+  config?: RetryConfig,
+  options?: FallbackExecutorOptions,
+): FallbackExecutor {
+  return new FallbackExecutor(chain, adapters, config, options);
+}
@@ -0,0 +1,64 @@
+/**
+ * Fingerprint Module
+ *
+ * Normalizes volatile tokens (UUIDs, request IDs, URLs, hostnames,
+ * timestamps, numbers) out of error messages and fingerprints classified
+ * errors, so errors from one incident group together.
+ */
+
+import { ClassifiedError, ErrorClassification, ErrorCode } from './types';
+
+/**
+ * Volatile tokens and their placeholders, applied in order:
+ * longer structures first, so their digits are not replaced one by one
+ */
+const VOLATILE_TOKENS: Array<[RegExp, string]> = [
+  [/\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>)]+/gi, '<url>'],
+  [/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>'],
+  [/\b\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?/gi, '<timestamp>'],
+  // Prefixed IDs such as `req_abc123`, `chatcmpl-9x8y` or `msg_01XyZ`, which contain at least one digit
+  [/\b[a-z]+[_-](?=[a-z0-9]*\d)[a-z0-9]{6,}\b/gi, '<id>'],
+  // Values labelled as IDs, e.g. "request id: 5f3a9c" or "x-request-id=abc"
+  [/\b((?:request|trace|correlation)[ _-]?id\b["']?\s*[:=]?\s*["']?)[\w-]+/gi, '$1<id>'],
+  [/\b[0-9a-f]{16,}\b/gi, '<id>'],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, '<ip>'],
+  [/\b(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:com|net|org|io|ai|dev|cloud|internal|local)(?::\d+)?\b/gi, '<host>'],
+  [/\d+(?:\.\d+)?/g, '<n>'],
+];
+
+/**
+ * 32-bit FNV-1a hash of a string, starting from `seed`
+ */
+function fnv1a(text: string, seed: number): number {
+  let hash = seed;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Replace volatile tokens in a message with placeholders and collapse whitespace
+ */
+export function normalizeMessage(message: string): string {
+  let normalized = message;
+  for (const [pattern, replacement] of VOLATILE_TOKENS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+  return normalized.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fingerprint a classified error from its code and normalized message.
+ * Equal fingerprints mean the same kind of failure, e.g. one outage.
+ */
+export function fingerprintError<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  error: Pick<ClassifiedError<TCode, TClass>, 'code' | 'message'>,
+): string {
+  const text = `${error.code}\n${normalizeMessage(error.message)}`;
+  // Two differently seeded hashes give 64 bits, enough to keep distinct groups apart
+  return [fnv1a(text, 0x811c9dc5), fnv1a(text, 0x050c5d1f)]
+    .map((hash) => hash.toString(16).padStart(8, '0'))
+    .join('');
+}
@@ -0,0 +1,243 @@
+/**
+ * Health Tracker Module
+ *
+ * Aggregates agent outcomes and health checks into `AgentStatus` and
+ * `SystemStatus` snapshots.
+ */
+
+import {
+  AgentAdapter,
+  AgentResponse,
+  AgentStatus,
+  CircuitState,
+  ClassifiedError,
+  ErrorCode,
+  SystemStatus,
+} from './types';
+import { CircuitBreaker } from './circuit-breaker';
+
+/**
+ * Options for constructing a HealthTracker
+ */
+export interface HealthTrackerOptions {
+  /** Adapters to health-check periodically */
+  adapters?: AgentAdapter[];
+  /** Interval between health checks in milliseconds (default 30000) */
+  healthCheckInterval?: number;
+  /** Number of recent outcomes kept per agent (default 100) */
+  windowSize?: number;
+  /** Failure rate within the window above which an agent is unhealthy (default 0.5) */
+  maxFailureRate?: number;
+  /** Clock (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * A single recorded outcome
+ */
+interface Outcome {
+  success: boolean;
+  latency?: number;
+}
+
+/**
+ * Per-agent tracking state
+ */
+interface AgentRecord {
+  outcomes: Outcome[];
+  lastUsed: number;
+  lastError?: ErrorCode;
+  lastHealthCheck?: boolean;
+  breaker?: CircuitBreaker;
+}
+
+/**
+ * Tracks agent health and request statistics
+ */
+export class HealthTracker {
+  private agents = new Map<string, AgentRecord>();
+  private adapters: AgentAdapter[];
+  private healthCheckInterval: number;
+  private windowSize: number;
+  private maxFailureRate: number;
+  private now: () => number;
+  private startedAt: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private currentAgent?: string;
+  private totalRequests = 0;
+  private successfulRequests = 0;
+  private failedRequests = 0;
+  private totalAttempts = 0;
+  private failedAttempts = 0;
+  private totalLatency = 0;
+  private latencySamples = 0;
+
+  constructor(options: HealthTrackerOptions = {}) {
+    this.adapters = options.adapters ?? [];
+    this.healthCheckInterval = options.healthCheckInterval ?? 30000;
+    this.windowSize = options.windowSize ?? 100;
+    this.maxFailureRate = options.maxFailureRate ?? 0.5;
+    this.now = options.now ?? Date.now;
+    this.startedAt = this.now();
+
+    for (const adapter of this.adapters) {
+      this.getAgent(adapter.name);
+    }
+  }
+
+  /**
+   * Register an agent so it appears in status snapshots before first use
+   */
+  registerAgent(agentName: string, breaker?: CircuitBreaker): void {
+    const record = this.getAgent(agentName);
+    if (breaker) record.breaker = breaker;
+  }
+
+  /**
+   * Record a successful attempt.
+   * `latency` is the measured attempt time, defaulting to the one the response reports.
+   */
+  recordSuccess(agentName: string, response: AgentResponse, latency: number = response.metadata.latency): void {
+    this.record(agentName, { success: true, latency });
+    this.totalLatency += latency;
+    this.latencySamples++;
+    this.currentAgent = agentName;
+  }
+
+  /**
+   * Record a failed attempt
+   */
+  recordFailure(agentName: string, error: ClassifiedError, latency?: number): void {
+    this.record(agentName, { success: false, latency });
+    this.getAgent(agentName).lastError = error.code;
+    this.failedAttempts++;
+  }
+
+  /**
+   * Record the final outcome of a request, once however many attempts it took
+   */
+  recordRequest(success: boolean): void {
+    this.totalRequests++;
+    if (success) {
+      this.successfulRequests++;
+    } else {
+      this.failedRequests++;
+    }
+  }
+
+  /**
+   * Run `healthCheck()` on every adapter.
+   * A throwing health check counts as unhealthy.
+   */
+  async runHealthChecks(): Promise<void> {
+    await Promise.all(this.adapters.map(async (adapter) => {
+      let healthy: boolean;
+      try {
+        healthy = await adapter.healthCheck();
+      } catch {
+        healthy = false;
+      }
+      this.getAgent(adapter.name).lastHealthCheck = healthy;
+    }));
+  }
+
+  /**
+   * Start periodic health checks
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      void this.runHealthChecks();
+    }, this.healthCheckInterval);
+    // Health checks alone should not keep the process alive
+    this.timer.unref?.();
+  }
+
+  /**
+   * Stop periodic health checks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Get the status of a single agent
+   */
+  getAgentStatus(agentName: string): AgentStatus {
+    const record = this.getAgent(agentName);
+    const successCount = record.outcomes.filter((outcome) => outcome.success).length;
+    const failureCount = record.outcomes.length - successCount;
+    const latencies = record.outcomes
+      .map((outcome) => outcome.latency)
+      .filter((latency): latency is number => latency !== undefined);
+    const circuitState = record.breaker?.getState() ?? CircuitState.CLOSED;
+    const failureRate = record.outcomes.length > 0 ? failureCount / record.outcomes.length : 0;
+
+    return {
+      name: agentName,
+      healthy: record.lastHealthCheck !== false &&
+        circuitState !== CircuitState.OPEN &&
+        failureRate <= this.maxFailureRate,
+      circuitState,
+      failureCount,
+      successCount,
+      lastUsed: record.lastUsed,
+      ...(record.lastError !== undefined && { lastError: record.lastError }),
+      averageLatency: latencies.length > 0 ? latencies.reduce((a, b) => a + b, 0) / latencies.length : 0,
+    };
+  }
+
+  /**
+   * Get a snapshot of the whole system
+   */
+  getStatus(): SystemStatus {
+    const agents = [...this.agents.keys()].map((name) => this.getAgentStatus(name));
+    return {
+      overallHealthy: agents.length > 0 && agents.some((agent) => agent.healthy),
+      ...(this.currentAgent !== undefined && { currentAgent: this.currentAgent }),
+      agents,
+      totalRequests: this.totalRequests,
+      successfulRequests: this.successfulRequests,
+      failedRequests: this.failedRequests,
+      totalAttempts: this.totalAttempts,
+      failedAttempts: this.failedAttempts,
+      averageLatency: this.latencySamples > 0 ? this.totalLatency / this.latencySamples : 0,
+      uptime: this.now() - this.startedAt,
+    };
+  }
+
+  /**
+   * Append an outcome to an agent's rolling window
+   */
+  private record(agentName: string, outcome: Outcome): void {
+    const record = this.getAgent(agentName);
+    record.outcomes.push(outcome);
+    if (record.outcomes.length > this.windowSize) {
+      record.outcomes.shift();
+    }
+    record.lastUsed = this.now();
+    this.totalAttempts++;
+  }
+
+  /**
+   * Get (or create) the record for an agent
+   */
+  private getAgent(agentName: string): AgentRecord {
+    let record = this.agents.get(agentName);
+    if (!record) {
+      record = { outcomes: [], lastUsed: 0 };
+      this.agents.set(agentName, record);
+    }
+    return record;
+  }
+}
+
+/**
+ * Create a health tracker
+ */
+export function createHealthTracker(options?: HealthTrackerOptions): HealthTracker {
+  return new HealthTracker(options);
+}
@@ -6,5 +6,208 @@
  * @module error-classifier-lib
  */
 
-export { ErrorClassifier, createErrorClassifier } from './error-classifier';
-export { ErrorCode, ErrorClassification, ClassifiedError } from './types';
+export {
+  ErrorClassifier,
+  createErrorClassifier,
+  ErrorClassifierOptions,
+  ClassifyOptions,
+  OverrideScope,
+} from './error-classifier';
+export {
+  ErrorCode,
+  ErrorClassification,
+  ClassifiedError,
+  ClassificationCandidate,
+  ClassificationSource,
+  ClassificationTrace,
+  RuleMatcher,
+  ErrorCodeDefinition,
+  ErrorCodeDefinitions,
+  DEFAULT_ERROR_DEFINITIONS,
+  JitterStrategy,
+  RetryConfig,
+  ClassificationPolicy,
+  PolicyRule,
+  BehaviorOverride,
+  BehaviorOverrideScope,
+  BehaviorOverrides,
+  DEFAULT_RETRY_CONFIG,
+  RetryContext,
+  RetryDecision,
+  RetryStopReason,
+  RetryBudgetConfig,
+  DEFAULT_RETRY_BUDGET_CONFIG,
+  RateLimitInfo,
+  ContextLengthInfo,
+  CircuitBreakerConfig,
+  CircuitState,
+  SystemEvents,
+  RetryAttemptEvent,
+  RetrySuccessEvent,
+  RetryFailureEvent,
+  FallbackTriggeredEvent,
+  CircuitOpenedEvent,
+  CircuitClosedEvent,
+  CircuitHalfOpenEvent,
+  QualityGateFailedEvent,
+  ErrorClassifiedEvent,
+  RequestCompletedEvent,
+  AgentConfig,
+  AgentRequest,
+  AgentResponse,
+  AgentAdapter,
+  ExecuteOptions,
+  FallbackChain,
+  ResponseMetadata,
+  TimeoutConfig,
+  QualityGatesConfig,
+  AdaptiveRetryConfig,
+  AgentStatus,
+  SystemStatus,
+  DEFAULT_QUALITY_GATES_CONFIG,
+  DEFAULT_TIMEOUT_CONFIG,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from './types';
+export { extractErrorDetails, walkErrorChain, ErrorDetails } from './error-details';
+export { RuleEngine, ErrorRule, RuleMatch, RULE_PRIORITY } from './rule-engine';
+export { DEFAULT_RULES } from './default-rules';
+export { computeBackoffDelay, BackoffOptions } from './backoff';
+export {
+  extractRateLimitHints,
+  parseDuration,
+  parseRetryAfter,
+  parseRetryPhrase,
+  RateLimitHints,
+} from './rate-limit-hints';
+export { TypedEventEmitter, EventListener } from './events';
+export {
+  CircuitBreaker,
+  createCircuitBreaker,
+  CircuitBreakerOptions,
+  DEFAULT_TRIP_CLASSIFICATIONS,
+} from './circuit-breaker';
+export { FallbackExecutor, createFallbackExecutor, FallbackExecutorOptions } from './fallback-executor';
+export {
+  QualityGates,
+  createQualityGates,
+  QualityGate,
+  QualityGateFailure,
+  QualityGateResult,
+  QualityGatesOptions,
+  QualityScorer,
+} from './quality-gates';
+export { AdaptiveRetryController, createAdaptiveRetryController, RetryAdjustment } from './adaptive-retry';
+export { HealthTracker, createHealthTracker, HealthTrackerOptions } from './health-tracker';
+export {
+  ProviderProfile,
+  PROVIDER_PROFILES,
+  OPENAI_PROFILE,
+  ANTHROPIC_PROFILE,
+  GOOGLE_PROFILE,
+  AZURE_PROFILE,
+  BEDROCK_PROFILE,
+} from './provider-profiles';
+export {
+  ClassifiedErrorException,
+  serializeError,
+  deserializeError,
+  redactSecrets,
+  SerializedClassifiedError,
+  SerializedCause,
+  SerializeOptions,
+  SERIALIZED_ERROR_VERSION,
+} from './serialization';
+export {
+  validatePolicy,
+  parsePolicy,
+  loadPolicyFile,
+  applyPolicy,
+  compilePolicyRule,
+  PolicyFile,
+  PolicyRetrySettings,
+  PolicyValidationOptions,
+  PolicyLoadOptions,
+  PolicyValidationResult,
+} from './policy';
+export {
+  RetryBudget,
+  TokenBucket,
+  createRetryBudget,
+  createTokenBucket,
+  LimiterOptions,
+} from './retry-budget';
+export { withRetry, retryable, RetryError, WithRetryOptions } from './with-retry';
+export {
+  parseContextLength,
+  extractContextLength,
+  recommendContextLengthAction,
+  ContextLengthRecommendation,
+  ContextLengthRecommendationOptions,
+} from './context-length';
+export {
+  classifyStreamFailure,
+  StreamMonitor,
+  createStreamMonitor,
+  StreamFailure,
+  StreamFailureKind,
+  StreamFailureInfo,
+  ClassifiedStreamError,
+} from './streaming';
+export {
+  LruCache,
+  DEFAULT_CACHE_SIZE,
+  ClassificationCacheOptions,
+} from './classification-cache';
+export { normalizeMessage, fingerprintError } from './fingerprint';
+export {
+  ErrorAggregator,
+  createErrorAggregator,
+  DEFAULT_AGGREGATION_WINDOW_MS,
+  ErrorAggregatorOptions,
+  ErrorGroup,
+} from './error-aggregator';
+export {
+  getUserMessage,
+  sanitizeMessage,
+  DEFAULT_MESSAGE_CATALOGS,
+  MessageCatalog,
+  MessageCatalogs,
+  UserMessageOptions,
+} from './user-messages';
+export {
+  LearnedClassifier,
+  tokenize,
+  parseTrainingData,
+  trainFromFile,
+  saveLearnedModel,
+  loadLearnedModel,
+  LEARNED_MODEL_VERSION,
+  TrainingExample,
+  LearnedClassifierOptions,
+  LearnedPrediction,
+  LearnedModel,
+} from './learned-classifier';
+export {
+  MetricsCollector,
+  createMetricsCollector,
+  attachMetrics,
+  toPrometheus,
+  toOpenTelemetry,
+  DEFAULT_DURATION_BUCKETS,
+  DEFAULT_METRIC_DEFINITIONS,
+  METRIC_NAMES,
+  OTLP_CUMULATIVE,
+  MetricLabels,
+  MetricsSink,
+  MetricDefinition,
+  CounterSample,
+  HistogramSample,
+  MetricSnapshot,
+  MetricsSnapshot,
+  MetricsCollectorOptions,
+  PrometheusOptions,
+  OtlpAttribute,
+  OtlpNumberDataPoint,
+  OtlpHistogramDataPoint,
+  OtlpMetric,
+} from './metrics';
@@ -0,0 +1,299 @@
+/**
+ * Learned Classifier Module
+ *
+ * A dependency-free multinomial naive Bayes text classifier, trained
+ * offline from labeled error messages and used by `ErrorClassifier` as a
+ * last resort when no rule matches.
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { ErrorCode } from './types';
+import { normalizeMessage } from './fingerprint';
+
+/**
+ * A labeled message, one per line of a JSONL training file
+ */
+export interface TrainingExample<TCode extends string = ErrorCode> {
+  message: string;
+  code: TCode;
+}
+
+/**
+ * Options for training or loading a learned classifier
+ */
+export interface LearnedClassifierOptions {
+  /** Additive (Laplace) smoothing (default 1) */
+  alpha?: number;
+  /** Predictions below this confidence are discarded (default 0.7) */
+  minConfidence?: number;
+}
+
+/**
+ * Predicted code and its posterior probability
+ */
+export interface LearnedPrediction<TCode extends string = ErrorCode> {
+  code: TCode;
+  confidence: number;
+}
+
+/**
+ * Token statistics of one code
+ */
+interface LabelStats {
+  /** Number of training messages with this code */
+  documents: number;
+  /** Total number of tokens in those messages */
+  tokens: number;
+  counts: Record<string, number>;
+}
+
+/**
+ * Token statistics of one code, with counts in a Map so that tokens such
+ * as `constructor` cannot collide with Object.prototype
+ */
+interface LabelCounts {
+  documents: number;
+  tokens: number;
+  counts: Map<string, number>;
+}
+
+/**
+ * Serialized model, as written by `toJSON()` / `saveLearnedModel()`
+ */
+export interface LearnedModel<TCode extends string = ErrorCode> {
+  version: typeof LEARNED_MODEL_VERSION;
+  alpha: number;
+  minConfidence: number;
+  labels: Partial<Record<TCode, LabelStats>>;
+}
+
+/** Current model format version */
+export const LEARNED_MODEL_VERSION = 1;
+
+/**
+ * Split a message into unigram and bigram features.
+ * Volatile tokens (IDs, numbers, URLs) are normalized first, so they
+ * become shared placeholders instead of one-off words.
+ */
+export function tokenize(message: string): string[] {
+  const words = normalizeMessage(message).toLowerCase().match(/<[a-z]+>|[a-z][a-z0-9_']*/g) ?? [];
+  const features = [...words];
+  for (let i = 1; i < words.length; i++) {
+    features.push(`${words[i - 1]} ${words[i]}`);
+  }
+  return features;
+}
+
+/**
+ * Check whether a value is a non-null object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Convert label counts to their JSON form
+ */
+function serializeLabels<TCode extends string>(labels: Map<TCode, LabelCounts>): Partial<Record<TCode, LabelStats>> {
+  const serialized: Partial<Record<TCode, LabelStats>> = {};
+  for (const [code, stats] of labels) {
+    serialized[code] = { documents: stats.documents, tokens: stats.tokens, counts: Object.fromEntries(stats.counts) };
+  }
+  return serialized;
+}
+
+/**
+ * Multinomial naive Bayes classifier over message tokens
+ */
+export class LearnedClassifier<TCode extends string = ErrorCode> {
+  private alpha: number;
+  private minConfidence: number;
+  private labels: Map<TCode, LabelCounts>;
+  private totalDocuments: number;
+  private vocabulary: Set<string>;
+
+  constructor(model: LearnedModel<TCode>) {
+    this.alpha = model.alpha;
+    this.minConfidence = model.minConfidence;
+    this.labels = new Map((Object.entries(model.labels) as Array<[TCode, LabelStats]>).map(([code, stats]) => [
+      code,
+      { documents: stats.documents, tokens: stats.tokens, counts: new Map(Object.entries(stats.counts)) },
+    ]));
+    this.totalDocuments = [...this.labels.values()].reduce((sum, stats) => sum + stats.documents, 0);
+    this.vocabulary = new Set([...this.labels.values()].flatMap((stats) => [...stats.counts.keys()]));
+  }
+
+  /**
+   * Train a classifier from labeled messages
+   */
+  static train<TCode extends string = ErrorCode>(
+    examples: readonly TrainingExample<TCode>[],
+    options: LearnedClassifierOptions = {},
+  ): LearnedClassifier<TCode> {
+    const labels = new Map<TCode, LabelCounts>();
+    for (const { message, code } of examples) {
+      let stats = labels.get(code);
+      if (!stats) {
+        stats = { documents: 0, tokens: 0, counts: new Map() };
+        labels.set(code, stats);
+      }
+      const features = tokenize(message);
+      stats.documents++;
+      stats.tokens += features.length;
+      for (const feature of features) {
+        stats.counts.set(feature, (stats.counts.get(feature) ?? 0) + 1);
+      }
+    }
+
+    return new LearnedClassifier<TCode>({
+      version: LEARNED_MODEL_VERSION,
+      alpha: options.alpha ?? 1,
+      minConfidence: options.minConfidence ?? 0.7,
+      labels: serializeLabels(labels),
+    });
+  }
+
+  /**
+   * Restore a classifier from a serialized model.
+   * Throws a TypeError when the model is malformed.
+   */
+  static fromJSON<TCode extends string = ErrorCode>(
+    input: unknown,
+    options: LearnedClassifierOptions = {},
+  ): LearnedClassifier<TCode> {
+    if (!isObject(input)) throw new TypeError('Invalid learned model: expected an object');
+    if (input.version !== LEARNED_MODEL_VERSION) {
+      throw new TypeError(`Unsupported learned model version: ${String(input.version)}`);
+    }
+    for (const key of ['alpha', 'minConfidence']) {
+      if (typeof input[key] !== 'number') throw new TypeError(`Invalid learned model: ${key} must be a number`);
+    }
+    if (!isObject(input.labels)) throw new TypeError('Invalid learned model: labels must be an object');
+    for (const [code, stats] of Object.entries(input.labels)) {
+      const valid = isObject(stats) && typeof stats.documents === 'number' && typeof stats.tokens === 'number' &&
+        isObject(stats.counts) && Object.values(stats.counts).every((count) => typeof count === 'number');
+      if (!valid) throw new TypeError(`Invalid learned model: labels.${code} is malformed`);
+    }
+
+    const model = input as unknown as LearnedModel<TCode>;
+    return new LearnedClassifier<TCode>({
+      ...model,
+      ...(options.alpha !== undefined && { alpha: options.alpha }),
+      ...(options.minConfidence !== undefined && { minConfidence: options.minConfidence }),
+    });
+  }
+
+  /**
+   * Predict the code of a message, or undefined when no known token is
+   * present or the confidence is below `minConfidence`
+   */
+  predict(message: string): LearnedPrediction<TCode> | undefined {
+    const scores = this.score(message);
+    if (scores.length === 0) return undefined;
+
+    const [best] = scores;
+    return best.confidence >= this.minConfidence ? best : undefined;
+  }
+
+  /**
+   * Posterior probability of every code for a message, most likely first
+   */
+  score(message: string): LearnedPrediction<TCode>[] {
+    if (this.totalDocuments === 0) return [];
+    // Tokens never seen in training carry no evidence
+    const features = tokenize(message).filter((feature) => this.vocabulary.has(feature));
+    if (features.length === 0) return [];
+
+    const logScores = [...this.labels].map(([code, stats]) => {
+      const denominator = Math.log(stats.tokens + this.alpha * this.vocabulary.size);
+      let score = Math.log(stats.documents / this.totalDocuments);
+      for (const feature of features) {
+        score += Math.log((stats.counts.get(feature) ?? 0) + this.alpha) - denominator;
+      }
+      return { code, score };
+    });
+
+    // Softmax, shifted by the maximum for numerical stability
+    const max = Math.max(...logScores.map(({ score }) => score));
+    const weights = logScores.map(({ code, score }) => ({ code, weight: Math.exp(score - max) }));
+    const total = weights.reduce((sum, { weight }) => sum + weight, 0);
+    return weights
+      .map(({ code, weight }) => ({ code, confidence: weight / total }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  /**
+   * Serialize the model
+   */
+  toJSON(): LearnedModel<TCode> {
+    return {
+      version: LEARNED_MODEL_VERSION,
+      alpha: this.alpha,
+      minConfidence: this.minConfidence,
+      labels: serializeLabels(this.labels),
+    };
+  }
+}
+
+/**
+ * Parse JSONL training data: one `{ "message": ..., "code": ... }` object per line.
+ * Blank lines are skipped; malformed lines throw with their line number.
+ */
+export function parseTrainingData<TCode extends string = ErrorCode>(text: string): TrainingExample<TCode>[] {
+  const examples: TrainingExample<TCode>[] = [];
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '') return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`line ${index + 1}: ${(error as Error).message}`);
+    }
+    if (!isObject(parsed) || typeof parsed.message !== 'string' || typeof parsed.code !== 'string') {
+      throw new Error(`line ${index + 1}: expected an object with string "message" and "code"`);
+    }
+    examples.push({ message: parsed.message, code: parsed.code as TCode });
+  });
+  return examples;
+}
+
+/**
+ * Read and train from a JSONL file of labeled messages
+ */
+export async function trainFromFile<TCode extends string = ErrorCode>(
+  path: string,
+  options?: LearnedClassifierOptions,
+): Promise<LearnedClassifier<TCode>> {
+  const text = await readFile(path, 'utf8');
+  try {
+    return LearnedClassifier.train(parseTrainingData<TCode>(text), options);
+  } catch (error) {
+    throw new Error(`${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Write a trained model to a JSON file
+ */
+export async function saveLearnedModel<TCode extends string>(
+  path: string,
+  classifier: LearnedClassifier<TCode>,
+): Promise<void> {
+  await writeFile(path, `${JSON.stringify(classifier.toJSON())}\n`, 'utf8');
+}
+
+/**
+ * Read a model written by `saveLearnedModel`
+ */
+export async function loadLearnedModel<TCode extends string = ErrorCode>(
+  path: string,
+  options?: LearnedClassifierOptions,
+): Promise<LearnedClassifier<TCode>> {
+  const text = await readFile(path, 'utf8');
+  try {
+    return LearnedClassifier.fromJSON<TCode>(JSON.parse(text), options);
+  } catch (error) {
+    throw new Error(`${path}: ${(error as Error).message}`);
+  }
+}
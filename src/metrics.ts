@@ -0,0 +1,490 @@
+/**
+ * Metrics Module
+ *
+ * Counts classified errors and records retry delays and request latencies
+ * from `SystemEvents`, with exporters for Prometheus text exposition and
+ * OpenTelemetry (OTLP JSON) metric data points.
+ */
+
+import { ErrorClassification, ErrorCode, SystemEvents } from './types';
+import { TypedEventEmitter } from './events';
+
+/**
+ * Label names and values of one series
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Receives metric updates, e.g. a MetricsCollector or an adapter for an
+ * existing metrics client
+ */
+export interface MetricsSink {
+  /** Add `value` (default 1) to a counter */
+  increment(name: string, labels: MetricLabels, value?: number): void;
+  /** Record a histogram observation */
+  observe(name: string, labels: MetricLabels, value: number): void;
+}
+
+/**
+ * Description of a metric, used by exporters
+ */
+export interface MetricDefinition {
+  name: string;
+  type: 'counter' | 'histogram';
+  help: string;
+  /** Unit, e.g. `ms` */
+  unit?: string;
+  /** Histogram bucket upper bounds, ascending */
+  buckets?: number[];
+}
+
+/**
+ * Counter series in a snapshot
+ */
+export interface CounterSample {
+  labels: MetricLabels;
+  value: number;
+}
+
+/**
+ * Histogram series in a snapshot.
+ * `bucketCounts` holds one count per bucket plus one for values above the
+ * last bound, each counting only its own bucket (not cumulative).
+ */
+export interface HistogramSample {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/**
+ * A metric and its series
+ */
+export type MetricSnapshot =
+  | (MetricDefinition & { type: 'counter'; samples: CounterSample[] })
+  | (MetricDefinition & { type: 'histogram'; buckets: number[]; samples: HistogramSample[] });
+
+/**
+ * All metrics of a collector at a point in time
+ */
+export interface MetricsSnapshot {
+  /** When collection started, in epoch milliseconds */
+  startTime: number;
+  /** When the snapshot was taken, in epoch milliseconds */
+  time: number;
+  metrics: MetricSnapshot[];
+}
+
+/** Default histogram bounds for durations in milliseconds */
+export const DEFAULT_DURATION_BUCKETS = [10, 50, 100, 250, 500, 1000, 2500, 5000, 10000, 30000, 60000];
+
+/** Metric names recorded by `attachMetrics` */
+export const METRIC_NAMES = {
+  errorsClassified: 'errors_classified_total',
+  fallbacks: 'fallbacks_total',
+  retryDelay: 'retry_delay_ms',
+  requestLatency: 'request_latency_ms',
+} as const;
+
+/**
+ * Definitions of the metrics recorded by `attachMetrics`
+ */
+export const DEFAULT_METRIC_DEFINITIONS: MetricDefinition[] = [
+  {
+    name: METRIC_NAMES.errorsClassified,
+    type: 'counter',
+    help: 'Classified errors by code, classification, retryability, agent and provider',
+  },
+  {
+    name: METRIC_NAMES.fallbacks,
+    type: 'counter',
+    help: 'Fallbacks from one agent to the next',
+  },
+  {
+    name: METRIC_NAMES.retryDelay,
+    type: 'histogram',
+    help: 'Delay before each retry',
+    unit: 'ms',
+    buckets: DEFAULT_DURATION_BUCKETS,
+  },
+  {
+    name: METRIC_NAMES.requestLatency,
+    type: 'histogram',
+    help: 'Total latency of executed requests, including retries and fallbacks',
+    unit: 'ms',
+    buckets: DEFAULT_DURATION_BUCKETS,
+  },
+];
+
+/**
+ * Options for constructing a MetricsCollector
+ */
+export interface MetricsCollectorOptions {
+  /** Metric definitions (defaults to DEFAULT_METRIC_DEFINITIONS) */
+  definitions?: MetricDefinition[];
+  /** Clock (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Series key independent of label order
+ */
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]));
+}
+
+interface CounterState {
+  definition: MetricDefinition;
+  series: Map<string, CounterSample>;
+}
+
+interface HistogramState {
+  definition: MetricDefinition;
+  buckets: number[];
+  series: Map<string, HistogramSample>;
+}
+
+/**
+ * In-memory metrics sink. Metrics without a definition are created on first
+ * use, as counters or histograms with DEFAULT_DURATION_BUCKETS.
+ */
+export class MetricsCollector implements MetricsSink {
+  private definitions = new Map<string, MetricDefinition>();
+  private counters = new Map<string, CounterState>();
+  private histograms = new Map<string, HistogramState>();
+  private now: () => number;
+  private startTime: number;
+
+  constructor(options: MetricsCollectorOptions = {}) {
+    for (const definition of options.definitions ?? DEFAULT_METRIC_DEFINITIONS) {
+      this.definitions.set(definition.name, definition);
+    }
+    this.now = options.now ?? Date.now;
+    this.startTime = this.now();
+  }
+
+  /**
+   * Add `value` (default 1) to a counter
+   */
+  increment(name: string, labels: MetricLabels, value: number = 1): void {
+    let state = this.counters.get(name);
+    if (!state) {
+      state = { definition: this.definitionFor(name, 'counter'), series: new Map() };
+      this.counters.set(name, state);
+    }
+
+    const key = seriesKey(labels);
+    const sample = state.series.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      state.series.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  /**
+   * Record a histogram observation
+   */
+  observe(name: string, labels: MetricLabels, value: number): void {
+    let state = this.histograms.get(name);
+    if (!state) {
+      const definition = this.definitionFor(name, 'histogram');
+      state = { definition, buckets: definition.buckets ?? DEFAULT_DURATION_BUCKETS, series: new Map() };
+      this.histograms.set(name, state);
+    }
+
+    const key = seriesKey(labels);
+    let sample = state.series.get(key);
+    if (!sample) {
+      sample = { labels: { ...labels }, bucketCounts: new Array(state.buckets.length + 1).fill(0), sum: 0, count: 0 };
+      state.series.set(key, sample);
+    }
+    const index = state.buckets.findIndex((bound) => value <= bound);
+    sample.bucketCounts[index === -1 ? state.buckets.length : index]++;
+    sample.sum += value;
+    sample.count++;
+  }
+
+  /**
+   * Copy of all recorded metrics
+   */
+  getSnapshot(): MetricsSnapshot {
+    const metrics: MetricSnapshot[] = [];
+    for (const { definition, series } of this.counters.values()) {
+      metrics.push({
+        ...definition,
+        type: 'counter',
+        samples: [...series.values()].map((sample) => ({ labels: { ...sample.labels }, value: sample.value })),
+      });
+    }
+    for (const { definition, buckets, series } of this.histograms.values()) {
+      metrics.push({
+        ...definition,
+        type: 'histogram',
+        buckets: [...buckets],
+        samples: [...series.values()].map((sample) => ({
+          ...sample,
+          labels: { ...sample.labels },
+          bucketCounts: [...sample.bucketCounts],
+        })),
+      });
+    }
+    return { startTime: this.startTime, time: this.now(), metrics };
+  }
+
+  /**
+   * Value of one counter series, or 0 if it was never incremented
+   */
+  getCounter(name: string, labels: MetricLabels): number {
+    return this.counters.get(name)?.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  /**
+   * Forget all recorded values and restart the collection period
+   */
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+    this.startTime = this.now();
+  }
+
+  /**
+   * Look up a metric's definition, defaulting one for unknown names
+   */
+  private definitionFor(name: string, type: MetricDefinition['type']): MetricDefinition {
+    const definition = this.definitions.get(name);
+    if (definition && definition.type !== type) {
+      throw new Error(`Metric ${name} is a ${definition.type}, not a ${type}`);
+    }
+    return definition ?? { name, type, help: name };
+  }
+}
+
+/**
+ * Record classifications, fallbacks, retry delays and request latencies
+ * emitted on `events` into `sink`. Returns a function that stops recording.
+ */
+export function attachMetrics<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  events: TypedEventEmitter<SystemEvents<TCode, TClass>>,
+  sink: MetricsSink,
+): () => void {
+  const onClassified = (event: SystemEvents<TCode, TClass>['error:classified']) => {
+    sink.increment(METRIC_NAMES.errorsClassified, {
+      code: event.error,
+      classification: event.classification,
+      retryable: String(event.retryable),
+      should_fallback: String(event.shouldFallback),
+      ...(event.agentName !== undefined && { agent: event.agentName }),
+      ...(event.provider !== undefined && { provider: event.provider }),
+    });
+  };
+  const onFallback = (event: SystemEvents<TCode, TClass>['fallback:triggered']) => {
+    sink.increment(METRIC_NAMES.fallbacks, { from: event.fromAgent, to: event.toAgent, code: event.reason });
+  };
+  const onRetry = (event: SystemEvents<TCode, TClass>['retry:attempt']) => {
+    sink.observe(METRIC_NAMES.retryDelay, {
+      agent: event.agentName,
+      ...(event.error !== undefined && { code: event.error }),
+    }, event.delay);
+  };
+  const onCompleted = (event: SystemEvents<TCode, TClass>['request:completed']) => {
+    sink.observe(METRIC_NAMES.requestLatency, { agent: event.agentName, success: String(event.success) }, event.latency);
+  };
+
+  events.on('error:classified', onClassified);
+  events.on('fallback:triggered', onFallback);
+  events.on('retry:attempt', onRetry);
+  events.on('request:completed', onCompleted);
+
+  return () => {
+    events.off('error:classified', onClassified);
+    events.off('fallback:triggered', onFallback);
+    events.off('retry:attempt', onRetry);
+    events.off('request:completed', onCompleted);
+  };
+}
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format labels as `{a="1",b="2"}`, or an empty string without labels
+ */
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * Format a number, spelling infinities the Prometheus way
+ */
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Options for `toPrometheus`
+ */
+export interface PrometheusOptions {
+  /** Prefix added to every metric name, e.g. `llm_` */
+  prefix?: string;
+}
+
+/**
+ * Render a snapshot in the Prometheus text exposition format (version 0.0.4)
+ */
+export function toPrometheus(snapshot: MetricsSnapshot, options: PrometheusOptions = {}): string {
+  const prefix = options.prefix ?? '';
+  const lines: string[] = [];
+
+  for (const metric of snapshot.metrics) {
+    const name = prefix + metric.name;
+    lines.push(`# HELP ${name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+    lines.push(`# TYPE ${name} ${metric.type}`);
+
+    if (metric.type === 'counter') {
+      for (const sample of metric.samples) {
+        lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+      }
+      continue;
+    }
+
+    for (const sample of metric.samples) {
+      let cumulative = 0;
+      [...metric.buckets, Infinity].forEach((bound, i) => {
+        cumulative += sample.bucketCounts[i];
+        const labels = formatLabels({ ...sample.labels, le: formatValue(bound) });
+        lines.push(`${name}_bucket${labels} ${cumulative}`);
+      });
+      lines.push(`${name}_sum${formatLabels(sample.labels)} ${formatValue(sample.sum)}`);
+      lines.push(`${name}_count${formatLabels(sample.labels)} ${sample.count}`);
+    }
+  }
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * OTLP attribute
+ */
+export interface OtlpAttribute {
+  key: string;
+  value: { stringValue: string };
+}
+
+/**
+ * OTLP number data point of a sum
+ */
+export interface OtlpNumberDataPoint {
+  attributes: OtlpAttribute[];
+  startTimeUnixNano: string;
+  timeUnixNano: string;
+  asDouble: number;
+}
+
+/**
+ * OTLP histogram data point
+ */
+export interface OtlpHistogramDataPoint {
+  attributes: OtlpAttribute[];
+  startTimeUnixNano: string;
+  timeUnixNano: string;
+  count: number;
+  sum: number;
+  bucketCounts: number[];
+  explicitBounds: number[];
+}
+
+/** Cumulative aggregation temporality, as in the OTLP protobuf enum */
+export const OTLP_CUMULATIVE = 2;
+
+/**
+ * OTLP metric, as in `ScopeMetrics.metrics` of the OTLP JSON encoding
+ */
+export type OtlpMetric = {
+  name: string;
+  description: string;
+  unit?: string;
+} & (
+  | { sum: { dataPoints: OtlpNumberDataPoint[]; aggregationTemporality: number; isMonotonic: true } }
+  | { histogram: { dataPoints: OtlpHistogramDataPoint[]; aggregationTemporality: number } }
+);
+
+/**
+ * Convert epoch milliseconds to a nanosecond string
+ */
+function toUnixNano(ms: number): string {
+  return (BigInt(Math.round(ms)) * 1_000_000n).toString();
+}
+
+/**
+ * Convert labels to OTLP attributes
+ */
+function toAttributes(labels: MetricLabels): OtlpAttribute[] {
+  return Object.entries(labels).map(([key, value]) => ({ key, value: { stringValue: value } }));
+}
+
+/**
+ * Convert a snapshot to OpenTelemetry metric data points with cumulative
+ * temporality: counters become monotonic sums, histograms explicit-bucket
+ * histograms
+ */
+export function toOpenTelemetry(snapshot: MetricsSnapshot): OtlpMetric[] {
+  const startTimeUnixNano = toUnixNano(snapshot.startTime);
+  const timeUnixNano = toUnixNano(snapshot.time);
+
+  return snapshot.metrics.map((metric): OtlpMetric => {
+    const base = {
+      name: metric.name,
+      description: metric.help,
+      ...(metric.unit !== undefined && { unit: metric.unit }),
+    };
+
+    if (metric.type === 'counter') {
+      return {
+        ...base,
+        sum: {
+          dataPoints: metric.samples.map((sample) => ({
+            attributes: toAttributes(sample.labels),
+            startTimeUnixNano,
+            timeUnixNano,
+            asDouble: sample.value,
+          })),
+          aggregationTemporality: OTLP_CUMULATIVE,
+          isMonotonic: true,
+        },
+      };
+    }
+
+    return {
+      ...base,
+      histogram: {
+        dataPoints: metric.samples.map((sample) => ({
+          attributes: toAttributes(sample.labels),
+          startTimeUnixNano,
+          timeUnixNano,
+          count: sample.count,
+          sum: sample.sum,
+          bucketCounts: [...sample.bucketCounts],
+          explicitBounds: [...metric.buckets],
+        })),
+        aggregationTemporality: OTLP_CUMULATIVE,
+      },
+    };
+  });
+}
+
+/**
+ * Create an in-memory metrics collector
+ */
+export function createMetricsCollector(options?: MetricsCollectorOptions): MetricsCollector {
+  return new MetricsCollector(options);
+}
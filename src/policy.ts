@@ -0,0 +1,478 @@
+/**
+ * Policy Module
+ *
+ * Loads classification policy (retry settings, retryable and fallback codes,
+ * code overrides, extra rules and scoped retry / fallback switches) from
+ * JSON or YAML files, validating it against the known error codes and
+ * classifications.
+ */
+
+import { readFile } from 'fs/promises';
+import { extname } from 'path';
+import {
+  BehaviorOverrides,
+  ClassificationPolicy,
+  ErrorClassification,
+  ErrorCode,
+  JitterStrategy,
+  PolicyRule,
+  RetryConfig,
+} from './types';
+import { ErrorRule } from './rule-engine';
+
+/**
+ * Retry settings a policy file may override
+ */
+export type PolicyRetrySettings = Partial<
+  Pick<RetryConfig, 'maxRetries' | 'baseDelay' | 'maxDelay' | 'backoffMultiplier' | 'jitter' | 'jitterStrategy'>
+>;
+
+/**
+ * Contents of a policy file
+ */
+export interface PolicyFile<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> {
+  version?: 1;
+  retry?: PolicyRetrySettings;
+  retryableErrors?: TCode[];
+  fallbackOnErrors?: TCode[];
+  codes?: ClassificationPolicy<TCode, TClass>['codes'];
+  rules?: PolicyRule<TCode>[];
+  overrides?: BehaviorOverrides<TCode, TClass>;
+}
+
+/**
+ * Options for validating a policy
+ */
+export interface PolicyValidationOptions {
+  /** Codes accepted in addition to the built-in `ErrorCode` values */
+  codes?: readonly string[];
+  /** Classifications accepted in addition to the built-in ones */
+  classifications?: readonly string[];
+}
+
+/**
+ * Options for parsing and loading a policy
+ */
+export interface PolicyLoadOptions extends PolicyValidationOptions {
+  /** Input format (`loadPolicyFile` defaults to the file extension, otherwise 'json') */
+  format?: 'json' | 'yaml';
+  /** YAML parser (defaults to the optional `js-yaml` package) */
+  parseYaml?: (text: string) => unknown;
+}
+
+/**
+ * Result of validating a policy
+ */
+export type PolicyValidationResult<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> =
+  | { valid: true; policy: PolicyFile<TCode, TClass>; issues: [] }
+  | { valid: false; issues: string[] };
+
+/** Built-in classifications, matching the `ErrorClassification` union */
+const BUILT_IN_CLASSIFICATIONS: readonly ErrorClassification[] = [
+  'timeout', 'rate_limit', 'authentication', 'model', 'quality', 'network', 'system', 'unknown',
+];
+
+/** Valid jitter strategies */
+const JITTER_STRATEGIES: readonly JitterStrategy[] = ['none', 'full', 'equal', 'decorrelated'];
+
+/** Keys allowed at each level of a policy */
+const POLICY_KEYS = ['version', 'retry', 'retryableErrors', 'fallbackOnErrors', 'codes', 'rules', 'overrides'];
+const RETRY_KEYS = ['maxRetries', 'baseDelay', 'maxDelay', 'backoffMultiplier', 'jitter', 'jitterStrategy'];
+const DEFINITION_KEYS = ['classification', 'retryable', 'shouldFallback'];
+const RULE_KEYS = ['id', 'code', 'priority', 'message', 'flags', 'name', 'status', 'errorCode', 'errorType'];
+const RULE_MATCHERS = ['message', 'name', 'status', 'errorCode', 'errorType'];
+const OVERRIDE_KEYS = ['codes', 'classifications', 'providers', 'agents'];
+const OVERRIDE_SCOPE_KEYS = ['codes', 'classifications'];
+const BEHAVIOR_KEYS = ['retryable', 'shouldFallback'];
+
+/**
+ * Check whether a value is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Edit distance between two strings
+ */
+function distance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Suggest the closest allowed value for a misspelt one
+ */
+function suggest(value: string, allowed: readonly string[]): string {
+  const lower = value.toLowerCase();
+  let best = value.length >= 3 ? allowed.find((candidate) => candidate.toLowerCase().startsWith(lower)) : undefined;
+  if (best !== undefined) return ` (did you mean "${best}"?)`;
+
+  let bestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+  for (const candidate of allowed) {
+    const d = distance(lower, candidate.toLowerCase());
+    if (d < bestDistance) {
+      best = candidate;
+      bestDistance = d;
+    }
+  }
+  return best !== undefined ? ` (did you mean "${best}"?)` : '';
+}
+
+/**
+ * Collects validation issues with their paths
+ */
+class IssueCollector {
+  readonly issues: string[] = [];
+
+  add(path: string, message: string): void {
+    this.issues.push(`${path}: ${message}`);
+  }
+
+  unknownKeys(path: string, obj: Record<string, unknown>, allowed: readonly string[]): void {
+    for (const key of Object.keys(obj)) {
+      if (!allowed.includes(key)) {
+        this.add(`${path}.${key}`, `unknown key${suggest(key, allowed)}`);
+      }
+    }
+  }
+
+  oneOf(path: string, value: unknown, allowed: readonly string[], what: string): void {
+    if (typeof value !== 'string') {
+      this.add(path, `expected ${what} string, got ${JSON.stringify(value)}`);
+    } else if (!allowed.includes(value)) {
+      this.add(path, `unknown ${what} "${value}"${suggest(value, allowed)}`);
+    }
+  }
+
+  type(path: string, value: unknown, type: 'string' | 'number' | 'boolean'): boolean {
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      this.add(path, `expected a ${type}, got ${JSON.stringify(value)}`);
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Validate a string-or-list matcher
+ */
+function checkStrings(issues: IssueCollector, path: string, value: unknown): void {
+  const values = Array.isArray(value) ? value : [value];
+  values.forEach((item, index) => {
+    issues.type(Array.isArray(value) ? `${path}[${index}]` : path, item, 'string');
+  });
+}
+
+/**
+ * Validate a single policy rule
+ */
+function checkRule(issues: IssueCollector, path: string, rule: unknown, codes: readonly string[], ids: Set<string>): void {
+  if (!isObject(rule)) {
+    issues.add(path, 'expected an object');
+    return;
+  }
+  issues.unknownKeys(path, rule, RULE_KEYS);
+
+  if (typeof rule.id !== 'string' || rule.id.length === 0) {
+    issues.add(`${path}.id`, 'expected a non-empty string');
+  } else if (ids.has(rule.id)) {
+    issues.add(`${path}.id`, `duplicate rule id "${rule.id}"`);
+  } else {
+    ids.add(rule.id);
+  }
+  issues.oneOf(`${path}.code`, rule.code, codes, 'error code');
+  if (rule.priority !== undefined) issues.type(`${path}.priority`, rule.priority, 'number');
+  if (rule.name !== undefined) issues.type(`${path}.name`, rule.name, 'string');
+
+  if (rule.flags !== undefined && issues.type(`${path}.flags`, rule.flags, 'string') && !/^[gimsuy]*$/.test(rule.flags as string)) {
+    issues.add(`${path}.flags`, `invalid regular expression flags "${rule.flags}"`);
+  }
+  if (rule.message !== undefined && issues.type(`${path}.message`, rule.message, 'string')) {
+    try {
+      new RegExp(rule.message as string, typeof rule.flags === 'string' ? rule.flags : 'i');
+    } catch (error) {
+      issues.add(`${path}.message`, `invalid regular expression: ${(error as Error).message}`);
+    }
+  }
+
+  if (rule.status !== undefined) {
+    const statuses = Array.isArray(rule.status) ? rule.status : [rule.status];
+    if (!statuses.every((status) => Number.isInteger(status))) {
+      issues.add(`${path}.status`, `expected an integer or list of integers, got ${JSON.stringify(rule.status)}`);
+    }
+  }
+  if (rule.errorCode !== undefined) checkStrings(issues, `${path}.errorCode`, rule.errorCode);
+  if (rule.errorType !== undefined) checkStrings(issues, `${path}.errorType`, rule.errorType);
+
+  if (!RULE_MATCHERS.some((key) => rule[key] !== undefined)) {
+    issues.add(path, `rule needs at least one of ${RULE_MATCHERS.join(', ')}`);
+  }
+}
+
+/**
+ * Validate one override scope (codes and classifications)
+ */
+function checkOverrideScope(
+  issues: IssueCollector,
+  path: string,
+  scope: Record<string, unknown>,
+  allowed: { codes: readonly string[]; classifications: readonly string[] },
+): void {
+  for (const [key, what] of [['codes', 'error code'], ['classifications', 'classification']] as const) {
+    const entries = scope[key];
+    if (entries === undefined) continue;
+    if (!isObject(entries)) {
+      issues.add(`${path}.${key}`, `expected an object keyed by ${what}`);
+      continue;
+    }
+    for (const [name, behavior] of Object.entries(entries)) {
+      const entryPath = `${path}.${key}.${name}`;
+      if (!allowed[key].includes(name)) {
+        issues.add(entryPath, `unknown ${what} "${name}"${suggest(name, allowed[key])}`);
+      }
+      if (!isObject(behavior)) {
+        issues.add(entryPath, 'expected an object');
+        continue;
+      }
+      issues.unknownKeys(entryPath, behavior, BEHAVIOR_KEYS);
+      for (const flag of BEHAVIOR_KEYS) {
+        if (behavior[flag] !== undefined) issues.type(`${entryPath}.${flag}`, behavior[flag], 'boolean');
+      }
+    }
+  }
+}
+
+/**
+ * Validate scoped retry / fallback overrides
+ */
+function checkOverrides(
+  issues: IssueCollector,
+  overrides: unknown,
+  allowed: { codes: readonly string[]; classifications: readonly string[] },
+): void {
+  const path = 'policy.overrides';
+  if (!isObject(overrides)) {
+    issues.add(path, 'expected an object');
+    return;
+  }
+  issues.unknownKeys(path, overrides, OVERRIDE_KEYS);
+  checkOverrideScope(issues, path, overrides, allowed);
+
+  for (const key of ['providers', 'agents']) {
+    const scopes = overrides[key];
+    if (scopes === undefined) continue;
+    if (!isObject(scopes)) {
+      issues.add(`${path}.${key}`, 'expected an object keyed by name');
+      continue;
+    }
+    for (const [name, scope] of Object.entries(scopes)) {
+      if (!isObject(scope)) {
+        issues.add(`${path}.${key}.${name}`, 'expected an object');
+        continue;
+      }
+      issues.unknownKeys(`${path}.${key}.${name}`, scope, OVERRIDE_SCOPE_KEYS);
+      checkOverrideScope(issues, `${path}.${key}.${name}`, scope, allowed);
+    }
+  }
+}
+
+/**
+ * Validate a parsed policy. Every problem is reported with its path,
+ * and misspelt codes, classifications and keys come with a suggestion.
+ */
+export function validatePolicy<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  input: unknown,
+  options: PolicyValidationOptions = {},
+): PolicyValidationResult<TCode, TClass> {
+  const codes = [...Object.values(ErrorCode), ...options.codes ?? []];
+  const classifications = [...BUILT_IN_CLASSIFICATIONS, ...options.classifications ?? []];
+  const issues = new IssueCollector();
+
+  if (!isObject(input)) {
+    return { valid: false, issues: ['policy: expected an object'] };
+  }
+  issues.unknownKeys('policy', input, POLICY_KEYS);
+
+  if (input.version !== undefined && input.version !== 1) {
+    issues.add('policy.version', `unsupported version ${JSON.stringify(input.version)}, expected 1`);
+  }
+
+  if (input.retry !== undefined) {
+    const retry = input.retry;
+    if (!isObject(retry)) {
+      issues.add('policy.retry', 'expected an object');
+    } else {
+      issues.unknownKeys('policy.retry', retry, RETRY_KEYS);
+      for (const key of ['maxRetries', 'baseDelay', 'maxDelay', 'backoffMultiplier']) {
+        if (retry[key] !== undefined && issues.type(`policy.retry.${key}`, retry[key], 'number') && (retry[key] as number) < 0) {
+          issues.add(`policy.retry.${key}`, 'must not be negative');
+        }
+      }
+      if (retry.maxRetries !== undefined && !Number.isInteger(retry.maxRetries)) {
+        issues.add('policy.retry.maxRetries', 'must be an integer');
+      }
+      if (retry.jitter !== undefined) issues.type('policy.retry.jitter', retry.jitter, 'boolean');
+      if (retry.jitterStrategy !== undefined) {
+        issues.oneOf('policy.retry.jitterStrategy', retry.jitterStrategy, JITTER_STRATEGIES, 'jitter strategy');
+      }
+    }
+  }
+
+  for (const key of ['retryableErrors', 'fallbackOnErrors']) {
+    const list = input[key];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) {
+      issues.add(`policy.${key}`, 'expected a list of error codes');
+      continue;
+    }
+    list.forEach((code, index) => issues.oneOf(`policy.${key}[${index}]`, code, codes, 'error code'));
+  }
+
+  if (input.codes !== undefined) {
+    if (!isObject(input.codes)) {
+      issues.add('policy.codes', 'expected an object keyed by error code');
+    } else {
+      for (const [code, definition] of Object.entries(input.codes)) {
+        const path = `policy.codes.${code}`;
+        if (!codes.includes(code)) {
+          issues.add(path, `unknown error code "${code}"${suggest(code, codes)}`);
+        }
+        if (!isObject(definition)) {
+          issues.add(path, 'expected an object');
+          continue;
+        }
+        issues.unknownKeys(path, definition, DEFINITION_KEYS);
+        if (definition.classification !== undefined) {
+          issues.oneOf(`${path}.classification`, definition.classification, classifications, 'classification');
+        }
+        if (definition.retryable !== undefined) issues.type(`${path}.retryable`, definition.retryable, 'boolean');
+        if (definition.shouldFallback !== undefined) {
+          issues.type(`${path}.shouldFallback`, definition.shouldFallback, 'boolean');
+        }
+      }
+    }
+  }
+
+  if (input.rules !== undefined) {
+    if (!Array.isArray(input.rules)) {
+      issues.add('policy.rules', 'expected a list of rules');
+    } else {
+      const ids = new Set<string>();
+      input.rules.forEach((rule, index) => checkRule(issues, `policy.rules[${index}]`, rule, codes, ids));
+    }
+  }
+
+  if (input.overrides !== undefined) {
+    checkOverrides(issues, input.overrides, { codes, classifications });
+  }
+
+  if (issues.issues.length > 0) {
+    return { valid: false, issues: issues.issues };
+  }
+  return { valid: true, policy: input as PolicyFile<TCode, TClass>, issues: [] };
+}
+
+/**
+ * Parse YAML with the optional `js-yaml` peer dependency (3.13+ or 4)
+ */
+function defaultParseYaml(text: string): unknown {
+  let yaml: { load(text: string, options?: { schema?: unknown }): unknown; DEFAULT_SAFE_SCHEMA?: unknown };
+  try {
+    yaml = require('js-yaml');
+  } catch {
+    throw new Error('YAML policies need the "js-yaml" package, or a `parseYaml` option');
+  }
+  // js-yaml 3 only disables custom tags with its safe schema; 4 made load safe,
+  // dropped that schema and turned safeLoad into a stub that throws
+  return yaml.DEFAULT_SAFE_SCHEMA ? yaml.load(text, { schema: yaml.DEFAULT_SAFE_SCHEMA }) : yaml.load(text);
+}
+
+/**
+ * Parse and validate policy text.
+ * Throws an Error listing every validation issue.
+ */
+export function parsePolicy<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  text: string,
+  options: PolicyLoadOptions = {},
+): PolicyFile<TCode, TClass> {
+  let parsed: unknown;
+  try {
+    parsed = options.format === 'yaml'
+      ? (options.parseYaml ?? defaultParseYaml)(text)
+      : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Invalid classification policy: ${(error as Error).message}`);
+  }
+
+  const result = validatePolicy<TCode, TClass>(parsed, options);
+  if (!result.valid) {
+    throw new Error(`Invalid classification policy:\n  - ${result.issues.join('\n  - ')}`);
+  }
+  return result.policy;
+}
+
+/**
+ * Read, parse and validate a policy file.
+ * `.yaml` and `.yml` files are parsed as YAML, anything else as JSON.
+ */
+export async function loadPolicyFile<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  path: string,
+  options: PolicyLoadOptions = {},
+): Promise<PolicyFile<TCode, TClass>> {
+  const text = await readFile(path, 'utf8');
+  const format = options.format ?? (['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? 'yaml' : 'json');
+  try {
+    return parsePolicy<TCode, TClass>(text, { ...options, format });
+  } catch (error) {
+    throw new Error(`${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Merge a policy into a retry config. Pass the result to
+ * `ErrorClassifier.setConfig()` to apply a reloaded policy at runtime.
+ */
+export function applyPolicy<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  config: RetryConfig<TCode, TClass>,
+  policy: PolicyFile<TCode, TClass>,
+): RetryConfig<TCode, TClass> {
+  return {
+    ...config,
+    ...policy.retry,
+    ...(policy.retryableErrors && { retryableErrors: policy.retryableErrors }),
+    ...(policy.fallbackOnErrors && { fallbackOnErrors: policy.fallbackOnErrors }),
+    policy: {
+      ...(policy.codes && { codes: policy.codes }),
+      ...(policy.rules && { rules: policy.rules }),
+      ...(policy.overrides && { overrides: policy.overrides }),
+    },
+  };
+}
+
+/**
+ * Convert a serializable policy rule into a rule engine rule
+ */
+export function compilePolicyRule<TCode extends string = ErrorCode>(rule: PolicyRule<TCode>): ErrorRule<TCode> {
+  return {
+    id: rule.id,
+    code: rule.code,
+    ...(rule.priority !== undefined && { priority: rule.priority }),
+    ...(rule.message !== undefined && { message: new RegExp(rule.message, rule.flags ?? 'i') }),
+    ...(rule.name !== undefined && { name: rule.name }),
+    ...(rule.status !== undefined && { status: rule.status }),
+    ...(rule.errorCode !== undefined && { errorCode: rule.errorCode }),
+    ...(rule.errorType !== undefined && { errorType: rule.errorType }),
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * Provider Profiles Module
+ *
+ * Provider-specific classification rules. A profile's rules are tried
+ * before the classifier's general rules when the provider is known.
+ */
+
+import { ErrorCode } from './types';
+import { ErrorRule } from './rule-engine';
+
+/**
+ * Classification rules for a single provider
+ */
+export interface ProviderProfile<TCode extends string = ErrorCode> {
+  /** Provider name as used in `AgentConfig.provider` */
+  name: string;
+  /** Rules evaluated before the general rules */
+  rules: readonly ErrorRule<TCode>[];
+}
+
+/**
+ * OpenAI API errors (`{ error: { type, code } }` bodies)
+ */
+export const OPENAI_PROFILE: ProviderProfile = {
+  name: 'openai',
+  rules: [
+    { id: 'openai:quota', code: ErrorCode.QUOTA_EXCEEDED, errorType: ['insufficient_quota', 'billing_hard_limit_reached'] },
+    { id: 'openai:context-length', code: ErrorCode.CONTEXT_LENGTH_EXCEEDED, errorType: 'context_length_exceeded' },
+    { id: 'openai:rate-limit', code: ErrorCode.RATE_LIMIT, errorType: ['rate_limit_exceeded', 'requests', 'tokens'] },
+    { id: 'openai:invalid-key', code: ErrorCode.INVALID_API_KEY, errorType: 'invalid_api_key' },
+    { id: 'openai:model-not-found', code: ErrorCode.MODEL_NOT_FOUND, errorType: 'model_not_found' },
+    { id: 'openai:overloaded', code: ErrorCode.MODEL_OVERLOADED, status: [429, 503], message: /overloaded/i },
+    { id: 'openai:server', code: ErrorCode.INTERNAL_ERROR, errorType: 'server_error' },
+  ],
+};
+
+/**
+ * Anthropic API errors (`{ type: 'error', error: { type } }` bodies)
+ */
+export const ANTHROPIC_PROFILE: ProviderProfile = {
+  name: 'anthropic',
+  rules: [
+    { id: 'anthropic:overloaded', code: ErrorCode.MODEL_OVERLOADED, errorType: 'overloaded_error' },
+    { id: 'anthropic:overloaded-status', code: ErrorCode.MODEL_OVERLOADED, status: 529 },
+    { id: 'anthropic:rate-limit', code: ErrorCode.RATE_LIMIT, errorType: 'rate_limit_error' },
+    { id: 'anthropic:too-large', code: ErrorCode.CONTEXT_LENGTH_EXCEEDED, errorType: 'request_too_large' },
+    {
+      id: 'anthropic:context-length',
+      code: ErrorCode.CONTEXT_LENGTH_EXCEEDED,
+      errorType: 'invalid_request_error',
+      message: /prompt is too long|exceed context limit|max_tokens/i,
+    },
+    {
+      id: 'anthropic:credits',
+      code: ErrorCode.QUOTA_EXCEEDED,
+      errorType: 'invalid_request_error',
+      message: /credit balance is too low/i,
+    },
+    { id: 'anthropic:authentication', code: ErrorCode.INVALID_API_KEY, errorType: 'authentication_error' },
+    { id: 'anthropic:permission', code: ErrorCode.PERMISSION_DENIED, errorType: 'permission_error' },
+    { id: 'anthropic:not-found', code: ErrorCode.MODEL_NOT_FOUND, errorType: 'not_found_error' },
+    { id: 'anthropic:api', code: ErrorCode.INTERNAL_ERROR, errorType: 'api_error' },
+  ],
+};
+
+/**
+ * Google Gemini / Vertex AI errors (`{ error: { code, status } }` bodies)
+ */
+export const GOOGLE_PROFILE: ProviderProfile = {
+  name: 'google',
+  rules: [
+    // Gemini reports per-minute limits as RESOURCE_EXHAUSTED with "quota" wording
+    { id: 'google:resource-exhausted', code: ErrorCode.RATE_LIMIT, errorType: 'RESOURCE_EXHAUSTED' },
+    { id: 'google:overloaded', code: ErrorCode.MODEL_OVERLOADED, errorType: 'UNAVAILABLE', message: /overloaded/i },
+    { id: 'google:unavailable', code: ErrorCode.SERVICE_UNAVAILABLE, errorType: 'UNAVAILABLE' },
+    { id: 'google:deadline', code: ErrorCode.TIMEOUT, errorType: 'DEADLINE_EXCEEDED' },
+    { id: 'google:unauthenticated', code: ErrorCode.INVALID_API_KEY, errorType: 'UNAUTHENTICATED' },
+    { id: 'google:invalid-key', code: ErrorCode.INVALID_API_KEY, message: /api key not valid|API_KEY_INVALID/i },
+    {
+      id: 'google:context-length',
+      code: ErrorCode.CONTEXT_LENGTH_EXCEEDED,
+      errorType: 'INVALID_ARGUMENT',
+      message: /exceeds the maximum number of tokens|input token count/i,
+    },
+    { id: 'google:permission', code: ErrorCode.PERMISSION_DENIED, errorType: 'PERMISSION_DENIED' },
+    { id: 'google:not-found', code: ErrorCode.MODEL_NOT_FOUND, errorType: 'NOT_FOUND' },
+    { id: 'google:internal', code: ErrorCode.INTERNAL_ERROR, errorType: 'INTERNAL' },
+    { id: 'google:safety', code: ErrorCode.QUALITY_THRESHOLD_NOT_MET, message: /blocked due to (SAFETY|RECITATION)|finishReason.*SAFETY/i },
+  ],
+};
+
+/**
+ * Azure OpenAI errors (OpenAI bodies plus Azure-specific codes)
+ */
+export const AZURE_PROFILE: ProviderProfile = {
+  name: 'azure',
+  rules: [
+    ...OPENAI_PROFILE.rules.map((rule) => ({ ...rule, id: rule.id.replace('openai:', 'azure:') })),
+    // Content filtering is specific to this deployment's policy; another agent may answer
+    {
+      id: 'azure:content-filter',
+      code: ErrorCode.QUALITY_THRESHOLD_NOT_MET,
+      errorType: ['content_filter', 'ResponsibleAIPolicyViolation'],
+    },
+    { id: 'azure:content-filter-message', code: ErrorCode.QUALITY_THRESHOLD_NOT_MET, message: /content management policy/i },
+    // "... have exceeded token rate limit of your current pricing tier. Please retry after 6 seconds."
+    { id: 'azure:rate-limit', code: ErrorCode.RATE_LIMIT, message: /exceeded (token |call )?rate limit/i },
+    { id: 'azure:deployment-not-found', code: ErrorCode.MODEL_NOT_FOUND, errorType: 'DeploymentNotFound' },
+  ],
+};
+
+/**
+ * AWS Bedrock errors (AWS SDK v3 exception names)
+ */
+export const BEDROCK_PROFILE: ProviderProfile = {
+  name: 'bedrock',
+  rules: [
+    { id: 'bedrock:throttling', code: ErrorCode.RATE_LIMIT, name: 'ThrottlingException' },
+    { id: 'bedrock:quota', code: ErrorCode.QUOTA_EXCEEDED, name: 'ServiceQuotaExceededException' },
+    { id: 'bedrock:model-not-ready', code: ErrorCode.MODEL_OVERLOADED, name: 'ModelNotReadyException' },
+    { id: 'bedrock:model-timeout', code: ErrorCode.TIMEOUT, name: 'ModelTimeoutException' },
+    { id: 'bedrock:not-found', code: ErrorCode.MODEL_NOT_FOUND, name: 'ResourceNotFoundException' },
+    { id: 'bedrock:access-denied', code: ErrorCode.PERMISSION_DENIED, name: 'AccessDeniedException' },
+    { id: 'bedrock:unrecognized-client', code: ErrorCode.INVALID_API_KEY, name: 'UnrecognizedClientException' },
+    { id: 'bedrock:expired-token', code: ErrorCode.AUTHENTICATION_ERROR, name: 'ExpiredTokenException' },
+    {
+      id: 'bedrock:context-length',
+      code: ErrorCode.CONTEXT_LENGTH_EXCEEDED,
+      name: 'ValidationException',
+      message: /too long|too many (input )?tokens|context window/i,
+    },
+    { id: 'bedrock:model-error', code: ErrorCode.INTERNAL_ERROR, name: /^(ModelErrorException|InternalServerException)$/ },
+    { id: 'bedrock:unavailable', code: ErrorCode.SERVICE_UNAVAILABLE, name: 'ServiceUnavailableException' },
+    { id: 'bedrock:stream', code: ErrorCode.INVALID_RESPONSE, name: 'ModelStreamErrorException' },
+  ],
+};
+
+/**
+ * Built-in provider profiles, keyed by provider name
+ */
+export const PROVIDER_PROFILES: Readonly<Record<string, ProviderProfile>> = {
+  openai: OPENAI_PROFILE,
+  anthropic: ANTHROPIC_PROFILE,
+  google: GOOGLE_PROFILE,
+  azure: AZURE_PROFILE,
+  bedrock: BEDROCK_PROFILE,
+};
@@ -0,0 +1,196 @@
+/**
+ * Quality Gates Module
+ *
+ * Checks successful agent responses against `QualityGatesConfig` and
+ * turns failed gates into classified errors.
+ */
+
+import {
+  AgentResponse,
+  ClassifiedError,
+  ErrorCode,
+  QualityGatesConfig,
+  SystemEvents,
+  DEFAULT_QUALITY_GATES_CONFIG,
+  DEFAULT_RETRY_CONFIG,
+} from './types';
+import { ErrorClassifier, OverrideScope } from './error-classifier';
+import { TypedEventEmitter } from './events';
+
+/**
+ * Name of a quality gate
+ */
+export type QualityGate = 'minResponseLength' | 'latencyThreshold' | 'minQualityScore' | 'maxErrorRate';
+
+/**
+ * User-supplied scoring function returning a score in [0, 1]
+ */
+export type QualityScorer = (response: AgentResponse) => number;
+
+/**
+ * A single failed gate
+ */
+export interface QualityGateFailure {
+  gate: QualityGate;
+  actual: number;
+  expected: number;
+  error: ClassifiedError;
+}
+
+/**
+ * Result of evaluating a response
+ */
+export interface QualityGateResult {
+  /** False for failed responses and responses failing any gate */
+  passed: boolean;
+  /** Failed gates; empty for failed responses, which are not gated */
+  failures: QualityGateFailure[];
+}
+
+/**
+ * Options for constructing QualityGates
+ */
+export interface QualityGatesOptions {
+  /** Scorer used for `minQualityScore`; the gate is skipped without one */
+  scorer?: QualityScorer;
+  /** Classifier used to build errors (defaults to one with the default retry config) */
+  classifier?: ErrorClassifier;
+  /** Emitter for `quality:gate-failed` events */
+  events?: TypedEventEmitter<SystemEvents>;
+  /** Number of recent outcomes per agent used for the error rate (default 100) */
+  windowSize?: number;
+  /** Outcomes required before `maxErrorRate` is enforced (default 10) */
+  minSamples?: number;
+}
+
+/**
+ * Evaluates agent responses against quality gates
+ */
+export class QualityGates {
+  private config: QualityGatesConfig;
+  private scorer?: QualityScorer;
+  private classifier: ErrorClassifier;
+  private events?: TypedEventEmitter<SystemEvents>;
+  private windowSize: number;
+  private minSamples: number;
+  private outcomes = new Map<string, boolean[]>();
+
+  constructor(config: QualityGatesConfig = DEFAULT_QUALITY_GATES_CONFIG, options: QualityGatesOptions = {}) {
+    this.config = config;
+    this.scorer = options.scorer;
+    this.classifier = options.classifier ?? new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+    this.events = options.events;
+    this.windowSize = options.windowSize ?? 100;
+    this.minSamples = options.minSamples ?? 10;
+  }
+
+  /**
+   * Evaluate a response against every configured gate.
+   * A failed response does not pass, without checking the gates.
+   * The outcome is recorded towards the agent's rolling error rate.
+   *
+   * Failures are classified for the response's agent (or `scope`) without
+   * emitting `error:classified`: the caller classifies the one it acts on.
+   */
+  evaluate(response: AgentResponse, scope: OverrideScope = {}): QualityGateResult {
+    if (!response.success) {
+      this.recordOutcome(response.agentName, false);
+      return { passed: false, failures: [] };
+    }
+
+    const failures: QualityGateFailure[] = [];
+    const fail = (gate: QualityGate, actual: number, expected: number, code: ErrorCode, message: string) => {
+      const error = this.classifier.classify(code, {
+        message,
+        provider: scope.provider,
+        agent: scope.agent ?? response.agentName,
+        emit: false,
+      });
+      failures.push({ gate, actual, expected, error });
+      this.events?.emit('quality:gate-failed', { agentName: response.agentName, gate, actual, expected });
+    };
+
+    const length = response.content.trim().length;
+    if (length < this.config.minResponseLength) {
+      fail(
+        'minResponseLength',
+        length,
+        this.config.minResponseLength,
+        length === 0 ? ErrorCode.EMPTY_RESPONSE : ErrorCode.QUALITY_THRESHOLD_NOT_MET,
+        `Response length ${length} is below the minimum of ${this.config.minResponseLength}`,
+      );
+    }
+
+    const latency = response.metadata.latency;
+    if (latency > this.config.latencyThreshold) {
+      fail(
+        'latencyThreshold',
+        latency,
+        this.config.latencyThreshold,
+        ErrorCode.LATENCY_TOO_HIGH,
+        `Latency ${latency}ms exceeds the threshold of ${this.config.latencyThreshold}ms`,
+      );
+    }
+
+    const minScore = this.config.minQualityScore;
+    if (minScore !== undefined && this.scorer) {
+      const score = this.scorer(response);
+      if (score < minScore) {
+        fail(
+          'minQualityScore',
+          score,
+          minScore,
+          ErrorCode.QUALITY_THRESHOLD_NOT_MET,
+          `Quality score ${score} is below the minimum of ${minScore}`,
+        );
+      }
+    }
+
+    this.recordOutcome(response.agentName, failures.length === 0);
+
+    const samples = this.outcomes.get(response.agentName)!.length;
+    const errorRate = this.getErrorRate(response.agentName);
+    if (samples >= this.minSamples && errorRate > this.config.maxErrorRate) {
+      fail(
+        'maxErrorRate',
+        errorRate,
+        this.config.maxErrorRate,
+        ErrorCode.QUALITY_THRESHOLD_NOT_MET,
+        `Error rate ${errorRate.toFixed(2)} exceeds the maximum of ${this.config.maxErrorRate}`,
+      );
+    }
+
+    return { passed: failures.length === 0, failures };
+  }
+
+  /**
+   * Record a request outcome for an agent without evaluating a response
+   */
+  recordOutcome(agentName: string, success: boolean): void {
+    let window = this.outcomes.get(agentName);
+    if (!window) {
+      window = [];
+      this.outcomes.set(agentName, window);
+    }
+    window.push(success);
+    if (window.length > this.windowSize) {
+      window.shift();
+    }
+  }
+
+  /**
+   * Get the rolling error rate for an agent (0 when nothing was recorded)
+   */
+  getErrorRate(agentName: string): number {
+    const window = this.outcomes.get(agentName);
+    if (!window || window.length === 0) return 0;
+    return window.filter((success) => !success).length / window.length;
+  }
+}
+
+/**
+ * Create a quality gate evaluator
+ */
+export function createQualityGates(config?: QualityGatesConfig, options?: QualityGatesOptions): QualityGates {
+  return new QualityGates(config, options);
+}
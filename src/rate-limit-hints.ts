@@ -0,0 +1,145 @@
+/**
+ * Rate Limit Hints Module
+ *
+ * Parses `Retry-After`, `x-ratelimit-*` / `anthropic-ratelimit-*` headers
+ * and "try again in 20s" message phrases into wait times and quota info.
+ */
+
+import { RateLimitInfo } from './types';
+import { ErrorDetails } from './error-details';
+
+/**
+ * Hints extracted from an error chain
+ */
+export interface RateLimitHints {
+  retryAfterMs?: number;
+  rateLimit?: RateLimitInfo;
+}
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+};
+
+/**
+ * Parse a Go-style duration such as "6m0s", "1.5s" or "20ms"
+ */
+export function parseDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (!/^(\d+(\.\d+)?(ms|h|m|s))+$/.test(trimmed)) return undefined;
+
+  let total = 0;
+  for (const match of trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += Number(match[1]) * DURATION_UNITS[match[2]];
+  }
+  return Math.round(total);
+}
+
+/**
+ * Parse a `Retry-After` value: delay in seconds or an HTTP date
+ */
+export function parseRetryAfter(value: string, now: number): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Parse a quota reset value: a duration ("6m0s"), seconds, or a timestamp
+ */
+function parseReset(value: string, now: number): number | undefined {
+  return parseDuration(value) ?? parseRetryAfter(value, now);
+}
+
+/**
+ * Parse a "try again in 1m30s" / "retry after 1.5 seconds" phrase
+ */
+export function parseRetryPhrase(message: string): number | undefined {
+  // Go-style durations, as in OpenAI's "Please try again in 6m0s"
+  const compound = /(?:try again|retry)(?: after| in)\s+((?:\d+(?:\.\d+)?(?:ms|h|m|s))+)\b/i.exec(message);
+  if (compound) return parseDuration(compound[1]);
+
+  const match = /(?:try again|retry)(?: after| in)\s+(\d+(?:\.\d+)?)\s*(ms|milliseconds?|s|secs?|seconds?|m|mins?|minutes?)\b/i
+    .exec(message);
+  if (!match) return undefined;
+
+  const unit = match[2].toLowerCase();
+  const factor = unit.startsWith('ms') || unit.startsWith('milli') ? 1 : unit.startsWith('m') ? 60_000 : 1000;
+  return Math.round(Number(match[1]) * factor);
+}
+
+/**
+ * Parse a non-negative integer count
+ */
+function parseCount(value: string | undefined): number | undefined {
+  return value !== undefined && /^\d+$/.test(value.trim()) ? Number(value) : undefined;
+}
+
+/**
+ * Read quota information from OpenAI- or Anthropic-style headers
+ */
+function readRateLimitInfo(headers: Record<string, string>, now: number): RateLimitInfo | undefined {
+  // OpenAI: x-ratelimit-remaining-requests, Anthropic: anthropic-ratelimit-requests-remaining
+  const pick = (kind: string, dimension: string) =>
+    headers[`x-ratelimit-${kind}-${dimension}`] ?? headers[`anthropic-ratelimit-${dimension}-${kind}`];
+  const reset = (dimension: string) => {
+    const value = pick('reset', dimension);
+    return value === undefined ? undefined : parseReset(value, now);
+  };
+
+  const candidates: RateLimitInfo = {
+    limitRequests: parseCount(pick('limit', 'requests')),
+    limitTokens: parseCount(pick('limit', 'tokens')),
+    remainingRequests: parseCount(pick('remaining', 'requests')),
+    remainingTokens: parseCount(pick('remaining', 'tokens')),
+    resetRequestsMs: reset('requests'),
+    resetTokensMs: reset('tokens'),
+  };
+
+  const info = Object.fromEntries(
+    Object.entries(candidates).filter(([, value]) => value !== undefined),
+  ) as RateLimitInfo;
+  return Object.keys(info).length > 0 ? info : undefined;
+}
+
+/**
+ * Extract wait time and quota hints from an error chain, outermost first
+ */
+export function extractRateLimitHints(chain: ErrorDetails[], now: number = Date.now()): RateLimitHints {
+  const hints: RateLimitHints = {};
+
+  for (const details of chain) {
+    const headers = details.headers;
+    if (headers) {
+      hints.rateLimit ??= readRateLimitInfo(headers, now);
+
+      if (hints.retryAfterMs === undefined) {
+        const retryAfterMs = headers['retry-after-ms'];
+        const retryAfter = headers['retry-after'];
+        if (retryAfterMs !== undefined && /^\d+(\.\d+)?$/.test(retryAfterMs.trim())) {
+          hints.retryAfterMs = Math.round(Number(retryAfterMs));
+        } else if (retryAfter !== undefined) {
+          hints.retryAfterMs = parseRetryAfter(retryAfter, now);
+        }
+      }
+    }
+    hints.retryAfterMs ??= parseRetryPhrase(details.message);
+  }
+
+  // Without an explicit hint, wait for whichever exhausted quota resets
+  const rateLimit = hints.rateLimit;
+  if (hints.retryAfterMs === undefined && rateLimit) {
+    const resets = [
+      rateLimit.remainingRequests === 0 ? rateLimit.resetRequestsMs : undefined,
+      rateLimit.remainingTokens === 0 ? rateLimit.resetTokensMs : undefined,
+    ].filter((value): value is number => value !== undefined);
+    if (resets.length > 0) hints.retryAfterMs = Math.max(...resets);
+  }
+
+  return hints;
+}
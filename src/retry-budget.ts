@@ -0,0 +1,146 @@
+/**
+ * Retry Budget Module
+ *
+ * Limits how much retrying callers may do in aggregate: a retry budget
+ * relative to recent requests, and per-agent token buckets derived from
+ * `AgentConfig.rateLimit`.
+ */
+
+import { RetryBudgetConfig, DEFAULT_RETRY_BUDGET_CONFIG } from './types';
+
+/**
+ * Options for constructing a RetryBudget or TokenBucket
+ */
+export interface LimiterOptions {
+  /** Clock (defaults to Date.now) */
+  now?: () => number;
+}
+
+/**
+ * Drop timestamps that have left the window
+ */
+function prune(timestamps: number[], cutoff: number): void {
+  let expired = 0;
+  while (expired < timestamps.length && timestamps[expired] <= cutoff) {
+    expired++;
+  }
+  if (expired > 0) timestamps.splice(0, expired);
+}
+
+/**
+ * Shared retry budget over a sliding window.
+ *
+ * Every request (first attempt) earns `ratio` retries on top of a fixed
+ * `minRetries` allowance, so retries stay a bounded fraction of traffic
+ * even when every caller considers its error retryable.
+ */
+export class RetryBudget {
+  private config: RetryBudgetConfig;
+  private now: () => number;
+  private requests: number[] = [];
+  private retries: number[] = [];
+
+  constructor(config: RetryBudgetConfig = DEFAULT_RETRY_BUDGET_CONFIG, options: LimiterOptions = {}) {
+    this.config = config;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Record a request (not a retry)
+   */
+  recordRequest(): void {
+    const now = this.now();
+    // Prune here too, so a budget that is never asked for retries stays bounded
+    prune(this.requests, now - this.config.windowMs);
+    this.requests.push(now);
+  }
+
+  /**
+   * Spend one retry from the budget, if any is left
+   */
+  tryRetry(): boolean {
+    if (this.getRemaining() < 1) return false;
+    this.retries.push(this.now());
+    return true;
+  }
+
+  /**
+   * Retries still allowed in the current window
+   */
+  getRemaining(): number {
+    const cutoff = this.now() - this.config.windowMs;
+    prune(this.requests, cutoff);
+    prune(this.retries, cutoff);
+    const allowed = this.config.minRetries + this.config.ratio * this.requests.length;
+    return Math.max(0, Math.floor(allowed - this.retries.length));
+  }
+
+  /**
+   * Forget all recorded requests and retries
+   */
+  reset(): void {
+    this.requests = [];
+    this.retries = [];
+  }
+}
+
+/**
+ * Token bucket holding up to `capacity` tokens, refilled continuously
+ * at `refillPerMinute`
+ */
+export class TokenBucket {
+  private capacity: number;
+  private refillPerMs: number;
+  private now: () => number;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(capacity: number, refillPerMinute: number = capacity, options: LimiterOptions = {}) {
+    this.capacity = capacity;
+    this.refillPerMs = refillPerMinute / 60000;
+    this.now = options.now ?? Date.now;
+    this.tokens = capacity;
+    this.updatedAt = this.now();
+  }
+
+  /**
+   * Take a token if one is available
+   */
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Whole tokens currently available
+   */
+  getAvailable(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+
+  /**
+   * Add the tokens accrued since the last update
+   */
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Create a retry budget
+ */
+export function createRetryBudget(config?: RetryBudgetConfig, options?: LimiterOptions): RetryBudget {
+  return new RetryBudget(config, options);
+}
+
+/**
+ * Create a token bucket allowing `requestsPerMinute`, as in `AgentConfig.rateLimit`
+ */
+export function createTokenBucket(requestsPerMinute: number, options?: LimiterOptions): TokenBucket {
+  return new TokenBucket(requestsPerMinute, requestsPerMinute, options);
+}
@@ -0,0 +1,278 @@
+/**
+ * Rule Engine Module
+ *
+ * Declarative, ordered matching rules that map error details to error codes.
+ */
+
+import { ErrorCode, RuleMatcher } from './types';
+import { ErrorDetails } from './error-details';
+
+/**
+ * A single classification rule.
+ *
+ * Every matcher that is set must match for the rule to apply;
+ * a rule without any matcher never matches.
+ */
+export interface ErrorRule<TCode extends string = ErrorCode> {
+  /** Unique identifier, used to override or remove the rule */
+  id: string;
+  /** Error code produced when the rule matches */
+  code: TCode;
+  /** Evaluation order, higher first (default 0) */
+  priority?: number;
+  /** Match against the error message */
+  message?: RegExp;
+  /** Match against the error name */
+  name?: string | RegExp;
+  /** Match against the HTTP status */
+  status?: number | number[];
+  /** Match against the Node / SDK error code */
+  errorCode?: string | string[];
+  /** Match against the provider error type */
+  errorType?: string | string[];
+  /** Match when the error is an instance of this constructor */
+  instanceOf?: abstract new (...args: never[]) => unknown;
+  /** Custom predicate */
+  test?: (details: ErrorDetails) => boolean;
+}
+
+/**
+ * Result of a successful rule match
+ */
+export interface RuleMatch<TCode extends string = ErrorCode> {
+  rule: ErrorRule<TCode>;
+  details: ErrorDetails;
+  /** Position of `details` in the error chain */
+  depth: number;
+  /** Matchers of the rule that matched */
+  matchers: RuleMatcher[];
+  /** Text matched by the message pattern */
+  keyword?: string;
+}
+
+/**
+ * Matchers that matched, or undefined when the rule does not apply
+ */
+type RuleEvaluation = Pick<RuleMatch, 'matchers' | 'keyword'> | undefined;
+
+/**
+ * Priority bands used by the built-in rules
+ */
+export const RULE_PRIORITY = {
+  PROVIDER_TYPE: 400,
+  STATUS: 300,
+  SYSTEM_CODE: 200,
+  NAME: 150,
+  MESSAGE: 100,
+} as const;
+
+/**
+ * Check a value against a single value or a list of values
+ */
+function oneOf<T>(expected: T | T[], actual: T | undefined): boolean {
+  if (actual === undefined) return false;
+  return Array.isArray(expected) ? expected.includes(actual) : expected === actual;
+}
+
+/**
+ * Check whether every matcher set on a rule matches the details
+ */
+function evaluateRule(rule: ErrorRule<string>, details: ErrorDetails): RuleEvaluation {
+  const matchers: RuleMatcher[] = [];
+  let keyword: string | undefined;
+
+  if (rule.message) {
+    rule.message.lastIndex = 0;
+    const found = rule.message.exec(details.message);
+    if (!found) return undefined;
+    matchers.push('message');
+    keyword = found[0];
+  }
+  if (rule.name !== undefined) {
+    if (details.name === undefined) return undefined;
+    const ok = typeof rule.name === 'string' ? rule.name === details.name : rule.name.test(details.name);
+    if (!ok) return undefined;
+    matchers.push('name');
+  }
+  if (rule.status !== undefined) {
+    if (!oneOf(rule.status, details.status)) return undefined;
+    matchers.push('status');
+  }
+  if (rule.errorCode !== undefined) {
+    if (!oneOf(rule.errorCode, details.code)) return undefined;
+    matchers.push('errorCode');
+  }
+  if (rule.errorType !== undefined) {
+    // SDKs disagree on whether the provider type lives in `type` or `code`
+    if (!oneOf(rule.errorType, details.type) && !oneOf(rule.errorType, details.code)) return undefined;
+    matchers.push('errorType');
+  }
+  if (rule.instanceOf) {
+    if (!(details.source instanceof rule.instanceOf)) return undefined;
+    matchers.push('instanceOf');
+  }
+  if (rule.test) {
+    if (!rule.test(details)) return undefined;
+    matchers.push('test');
+  }
+
+  if (matchers.length === 0) return undefined;
+  return { matchers, ...(keyword !== undefined && { keyword }) };
+}
+
+/**
+ * Check whether a message pattern can be folded into a combined filter.
+ * Unicode-mode patterns parse differently and back-references or named
+ * groups would be renumbered or clash.
+ */
+function isCombinable(pattern: RegExp): boolean {
+  return !/[uvy]/.test(pattern.flags) && !/\\[1-9]|\\k<|\(\?<(?![=!])/.test(pattern.source);
+}
+
+/**
+ * Build one regex that matches whenever any of the patterns could.
+ * The `ims` flags only widen a pattern, so the filter may report a match
+ * that the individual pattern rejects, but never the reverse.
+ */
+function buildMessageFilter(patterns: RegExp[]): RegExp | undefined {
+  if (patterns.length === 0) return undefined;
+  try {
+    return new RegExp(patterns.map((pattern) => `(?:${pattern.source})`).join('|'), 'ims');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Rules in evaluation order, with the message filter covering `filtered`
+ */
+interface CompiledRules<TCode extends string> {
+  rules: ErrorRule<TCode>[];
+  messageFilter?: RegExp;
+  filtered: Set<ErrorRule<TCode>>;
+  /** Whether any rule has a `test` predicate */
+  hasPredicates: boolean;
+}
+
+/**
+ * Ordered rule set with per-instance registration.
+ *
+ * Message patterns are precompiled into a single filter that is run once
+ * per error in the chain, so rules whose pattern cannot match are skipped
+ * without evaluating them.
+ */
+export class RuleEngine<TCode extends string = ErrorCode> {
+  private rules = new Map<string, ErrorRule<TCode>>();
+  private compiled: CompiledRules<TCode> | null = null;
+
+  constructor(rules: readonly ErrorRule<TCode>[] = []) {
+    for (const rule of rules) {
+      this.rules.set(rule.id, rule);
+    }
+  }
+
+  /**
+   * Register a rule, replacing any existing rule with the same id
+   */
+  addRule(rule: ErrorRule<TCode>): void {
+    this.rules.set(rule.id, rule);
+    this.compiled = null;
+  }
+
+  /**
+   * Remove a rule by id
+   */
+  removeRule(id: string): boolean {
+    const removed = this.rules.delete(id);
+    if (removed) this.compiled = null;
+    return removed;
+  }
+
+  /**
+   * Get all rules in evaluation order
+   */
+  getRules(): ErrorRule<TCode>[] {
+    return this.compile().rules;
+  }
+
+  /**
+   * Whether any rule has a `test` predicate, which may read fields of the
+   * error that no cache key captures
+   */
+  hasPredicates(): boolean {
+    return this.compile().hasPredicates;
+  }
+
+  /**
+   * Find the first rule matching any node of the error chain.
+   * Rules are tried in priority order, each against the whole chain.
+   */
+  match(chain: ErrorDetails[]): RuleMatch<TCode> | undefined {
+    const compiled = this.compile();
+    const candidates = this.filterNodes(compiled, chain);
+    for (const rule of compiled.rules) {
+      const found = this.matchRule(rule, chain, compiled.filtered.has(rule) ? candidates : undefined);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  /**
+   * Find every rule matching the error chain, in evaluation order.
+   * The first entry is the one `match()` returns.
+   */
+  matchAll(chain: ErrorDetails[]): RuleMatch<TCode>[] {
+    const compiled = this.compile();
+    const candidates = this.filterNodes(compiled, chain);
+    const matches: RuleMatch<TCode>[] = [];
+    for (const rule of compiled.rules) {
+      const found = this.matchRule(rule, chain, compiled.filtered.has(rule) ? candidates : undefined);
+      if (found) matches.push(found);
+    }
+    return matches;
+  }
+
+  /**
+   * Sort the rules and build the message filter, once per change
+   */
+  private compile(): CompiledRules<TCode> {
+    if (!this.compiled) {
+      // Array.prototype.sort is stable, so equal priorities keep registration order
+      const rules = [...this.rules.values()].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+      const filtered = new Set(rules.filter((rule) => rule.message && isCombinable(rule.message)));
+      const messageFilter = buildMessageFilter([...filtered].map((rule) => rule.message!));
+      const hasPredicates = rules.some((rule) => rule.test !== undefined);
+      this.compiled = messageFilter
+        ? { rules, messageFilter, filtered, hasPredicates }
+        : { rules, filtered: new Set(), hasPredicates };
+    }
+    return this.compiled;
+  }
+
+  /**
+   * For each node of the chain, whether any filtered message pattern may match it
+   */
+  private filterNodes(compiled: CompiledRules<TCode>, chain: ErrorDetails[]): boolean[] | undefined {
+    const filter = compiled.messageFilter;
+    return filter && chain.map((details) => filter.test(details.message));
+  }
+
+  /**
+   * Match one rule against the chain, nearest node first.
+   * Nodes whose entry in `candidates` is false are skipped.
+   */
+  private matchRule(
+    rule: ErrorRule<TCode>,
+    chain: ErrorDetails[],
+    candidates?: boolean[],
+  ): RuleMatch<TCode> | undefined {
+    for (let depth = 0; depth < chain.length; depth++) {
+      if (candidates && !candidates[depth]) continue;
+      const evaluation = evaluateRule(rule, chain[depth]);
+      if (evaluation) {
+        return { rule, details: chain[depth], depth, ...evaluation };
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,321 @@
+/**
+ * Serialization Module
+ *
+ * Versioned JSON wire format for classified errors, so failures can cross
+ * worker and queue boundaries and be rethrown on the other side.
+ */
+
+import { ClassifiedError, ContextLengthInfo, ErrorClassification, ErrorCode, RateLimitInfo } from './types';
+import { extractErrorDetails } from './error-details';
+
+/** Current wire format version */
+export const SERIALIZED_ERROR_VERSION = 1;
+
+/** Replacement for redacted secrets */
+const REDACTED = '[REDACTED]';
+
+/** Maximum depth when serializing nested causes */
+const MAX_CAUSE_DEPTH = 8;
+
+/** Credential-shaped substrings redacted even when not listed explicitly */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  [/\bsk-[A-Za-z0-9_-]{8,}/g, REDACTED],
+  [/\bAKIA[0-9A-Z]{16}\b/g, REDACTED],
+  [/\bAIza[0-9A-Za-z_-]{35}\b/g, REDACTED],
+  [/\b(Bearer)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+  [/([?&](?:api[-_]?key|key|token)=)[^&\s]+/gi, `$1${REDACTED}`],
+];
+
+/** Body keys whose values are always redacted */
+const SECRET_KEYS = /^(api[-_]?key|x-api-key|authorization|token|secret|password)$/i;
+
+/**
+ * A serialized error from the `cause` chain
+ */
+export interface SerializedCause {
+  name?: string;
+  message: string;
+  stack?: string;
+  status?: number;
+  /** Node / SDK error code */
+  code?: string;
+  /** Provider error type */
+  type?: string;
+  /** Provider JSON error body */
+  body?: Record<string, unknown>;
+  cause?: SerializedCause;
+  /** Inner errors of an AggregateError */
+  errors?: SerializedCause[];
+}
+
+/**
+ * Wire format of a classified error
+ */
+export interface SerializedClassifiedError<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> {
+  version: typeof SERIALIZED_ERROR_VERSION;
+  code: TCode;
+  classification: TClass;
+  retryable: boolean;
+  shouldFallback: boolean;
+  message: string;
+  userMessage?: string;
+  fingerprint?: string;
+  confidence?: number;
+  status?: number;
+  retryAfterMs?: number;
+  rateLimit?: RateLimitInfo;
+  contextLength?: ContextLengthInfo;
+  stack?: string;
+  /** The original error */
+  cause?: SerializedCause;
+}
+
+/**
+ * Options for serializing a classified error
+ */
+export interface SerializeOptions {
+  /** Original error, when serializing a plain `ClassifiedError` */
+  cause?: unknown;
+  /** Secret values to redact, e.g. `AgentConfig.apiKey` of every agent */
+  secrets?: readonly string[];
+  /** Include stack traces (default true) */
+  stack?: boolean;
+}
+
+/**
+ * An Error carrying its classification, for rethrowing classified failures.
+ * `ErrorClassifier.classify()` returns the carried classification unchanged.
+ */
+export class ClassifiedErrorException<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> extends Error {
+  readonly classified: ClassifiedError<TCode, TClass>;
+
+  constructor(classified: ClassifiedError<TCode, TClass>, options: { cause?: unknown } = {}) {
+    super(classified.message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'ClassifiedErrorException';
+    this.classified = classified;
+  }
+
+  /**
+   * Serialize with default options when passed to `JSON.stringify`
+   */
+  toJSON(): SerializedClassifiedError<TCode, TClass> {
+    return serializeError(this);
+  }
+}
+
+/**
+ * Check whether a value is a non-null object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Redact explicit secrets and credential-shaped substrings from text
+ */
+export function redactSecrets(text: string, secrets: readonly string[] = []): string {
+  let redacted = text;
+  for (const secret of secrets) {
+    // Very short values would redact unrelated text
+    if (secret.length >= 8) {
+      redacted = redacted.split(secret).join(REDACTED);
+    }
+  }
+  for (const [pattern, replacement] of SECRET_PATTERNS) {
+    redacted = redacted.replace(pattern, replacement);
+  }
+  return redacted;
+}
+
+/**
+ * Redact secrets from every string in a JSON-like value
+ */
+function redactValue(value: unknown, secrets: readonly string[]): unknown {
+  if (typeof value === 'string') return redactSecrets(value, secrets);
+  if (Array.isArray(value)) return value.map((item) => redactValue(item, secrets));
+  if (!isObject(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] = SECRET_KEYS.test(key) && item !== undefined ? REDACTED : redactValue(item, secrets);
+  }
+  return result;
+}
+
+/**
+ * Serialize an error and its causes
+ */
+function serializeCause(
+  error: unknown,
+  options: SerializeOptions,
+  seen: Set<unknown>,
+  depth: number,
+): SerializedCause | undefined {
+  if (error === undefined || error === null || seen.has(error) || depth > MAX_CAUSE_DEPTH) {
+    return undefined;
+  }
+  seen.add(error);
+
+  const secrets = options.secrets ?? [];
+  const details = extractErrorDetails(error);
+  const serialized: SerializedCause = { message: redactSecrets(details.message, secrets) };
+  if (details.name !== undefined) serialized.name = details.name;
+  if (options.stack !== false && error instanceof Error && error.stack) {
+    serialized.stack = redactSecrets(error.stack, secrets);
+  }
+  if (details.status !== undefined) serialized.status = details.status;
+  if (details.code !== undefined) serialized.code = details.code;
+  if (details.type !== undefined) serialized.type = details.type;
+  if (details.body) serialized.body = redactValue(details.body, secrets) as Record<string, unknown>;
+
+  if (isObject(error)) {
+    const cause = serializeCause(error.cause, options, seen, depth + 1);
+    if (cause) serialized.cause = cause;
+    if (Array.isArray(error.errors)) {
+      serialized.errors = error.errors
+        .map((inner) => serializeCause(inner, options, seen, depth + 1))
+        .filter((inner): inner is SerializedCause => inner !== undefined);
+    }
+  }
+  return serialized;
+}
+
+/**
+ * Serialize a classified error (or a ClassifiedErrorException) to the
+ * versioned wire format. Secrets are redacted from messages, stacks and
+ * provider bodies; the classification `trace` is not serialized.
+ */
+export function serializeError<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  error: ClassifiedError<TCode, TClass> | ClassifiedErrorException<TCode, TClass>,
+  options: SerializeOptions = {},
+): SerializedClassifiedError<TCode, TClass> {
+  const isException = error instanceof ClassifiedErrorException;
+  const classified = isException ? error.classified : error;
+  const secrets = options.secrets ?? [];
+  const cause = serializeCause(isException ? error.cause : options.cause, options, new Set(), 0);
+
+  return {
+    version: SERIALIZED_ERROR_VERSION,
+    code: classified.code,
+    classification: classified.classification,
+    retryable: classified.retryable,
+    shouldFallback: classified.shouldFallback,
+    message: redactSecrets(classified.message, secrets),
+    ...(classified.userMessage !== undefined && { userMessage: classified.userMessage }),
+    ...(classified.fingerprint !== undefined && { fingerprint: classified.fingerprint }),
+    ...(classified.confidence !== undefined && { confidence: classified.confidence }),
+    ...(classified.status !== undefined && { status: classified.status }),
+    ...(classified.retryAfterMs !== undefined && { retryAfterMs: classified.retryAfterMs }),
+    ...(classified.rateLimit && { rateLimit: { ...classified.rateLimit } }),
+    ...(classified.contextLength && { contextLength: { ...classified.contextLength } }),
+    ...(isException && options.stack !== false && error.stack && { stack: redactSecrets(error.stack, secrets) }),
+    ...(cause && { cause }),
+  };
+}
+
+/**
+ * Throw a schema validation error
+ */
+function invalid(path: string, expected: string): never {
+  throw new TypeError(`Invalid serialized error: ${path} must be ${expected}`);
+}
+
+/**
+ * Validate an optional property type
+ */
+function checkOptional(obj: Record<string, unknown>, key: string, type: 'string' | 'number', prefix = ''): void {
+  if (obj[key] !== undefined && typeof obj[key] !== type) {
+    invalid(`${prefix}${key}`, `a ${type}`);
+  }
+}
+
+/**
+ * Validate a serialized cause and rebuild it as an Error
+ * shaped like the original, so it classifies the same way
+ */
+function reviveCause(value: unknown, path: string): Error {
+  if (!isObject(value)) invalid(path, 'an object');
+  if (typeof value.message !== 'string') invalid(`${path}.message`, 'a string');
+  for (const key of ['name', 'stack', 'code', 'type']) {
+    checkOptional(value, key, 'string', `${path}.`);
+  }
+  checkOptional(value, 'status', 'number', `${path}.`);
+  if (value.body !== undefined && !isObject(value.body)) invalid(`${path}.body`, 'an object');
+  if (value.errors !== undefined && !Array.isArray(value.errors)) invalid(`${path}.errors`, 'an array');
+
+  const cause = value.cause !== undefined ? reviveCause(value.cause, `${path}.cause`) : undefined;
+  const error = new Error(value.message, cause ? { cause } : undefined);
+  if (value.name !== undefined) error.name = value.name as string;
+  if (value.stack !== undefined) error.stack = value.stack as string;
+
+  return Object.assign(error, {
+    ...(value.status !== undefined && { status: value.status }),
+    ...(value.code !== undefined && { code: value.code }),
+    ...(value.type !== undefined && { type: value.type }),
+    ...(value.body !== undefined && { error: value.body }),
+    ...(Array.isArray(value.errors) && {
+      errors: value.errors.map((inner, index) => reviveCause(inner, `${path}.errors[${index}]`)),
+    }),
+  });
+}
+
+/**
+ * Validate a serialized error (object or JSON string) and rebuild it as a
+ * ClassifiedErrorException. Throws a TypeError when the schema does not match.
+ */
+export function deserializeError<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  input: unknown,
+): ClassifiedErrorException<TCode, TClass> {
+  const value: unknown = typeof input === 'string' ? JSON.parse(input) : input;
+  if (!isObject(value)) invalid('value', 'an object');
+  if (value.version !== SERIALIZED_ERROR_VERSION) {
+    throw new TypeError(`Unsupported serialized error version: ${String(value.version)}`);
+  }
+
+  for (const key of ['code', 'classification', 'message']) {
+    if (typeof value[key] !== 'string') invalid(key, 'a string');
+  }
+  for (const key of ['retryable', 'shouldFallback']) {
+    if (typeof value[key] !== 'boolean') invalid(key, 'a boolean');
+  }
+  checkOptional(value, 'userMessage', 'string');
+  checkOptional(value, 'fingerprint', 'string');
+  checkOptional(value, 'confidence', 'number');
+  checkOptional(value, 'status', 'number');
+  checkOptional(value, 'retryAfterMs', 'number');
+  checkOptional(value, 'stack', 'string');
+  for (const key of ['rateLimit', 'contextLength']) {
+    const counts = value[key];
+    if (counts === undefined) continue;
+    if (!isObject(counts)) invalid(key, 'an object');
+    for (const [name, count] of Object.entries(counts)) {
+      if (typeof count !== 'number') invalid(`${key}.${name}`, 'a number');
+    }
+  }
+
+  const classified = {
+    code: value.code,
+    classification: value.classification,
+    retryable: value.retryable,
+    shouldFallback: value.shouldFallback,
+    message: value.message,
+    ...(value.userMessage !== undefined && { userMessage: value.userMessage }),
+    ...(value.fingerprint !== undefined && { fingerprint: value.fingerprint }),
+    ...(value.confidence !== undefined && { confidence: value.confidence }),
+    ...(value.status !== undefined && { status: value.status }),
+    ...(value.retryAfterMs !== undefined && { retryAfterMs: value.retryAfterMs }),
+    ...(value.rateLimit !== undefined && { rateLimit: value.rateLimit }),
+    ...(value.contextLength !== undefined && { contextLength: value.contextLength }),
+  } as ClassifiedError<TCode, TClass>;
+  const cause = value.cause !== undefined ? reviveCause(value.cause, 'cause') : undefined;
+
+  const exception = new ClassifiedErrorException(classified, { cause });
+  if (value.stack !== undefined) exception.stack = value.stack as string;
+  return exception;
+}
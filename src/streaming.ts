@@ -0,0 +1,222 @@
+/**
+ * Streaming Module
+ *
+ * Classifies failures of streamed responses: SSE `event: error` frames,
+ * truncated JSON chunks and connections dropped after partial content.
+ */
+
+import { ClassifiedError, ErrorClassification, ErrorCode } from './types';
+import { ErrorClassifier } from './error-classifier';
+
+/**
+ * Everything known about a failed stream
+ */
+export interface StreamFailure {
+  /** Error thrown while reading the stream */
+  error?: unknown;
+  /** Data of an SSE `event: error` frame, raw or parsed */
+  errorEvent?: string | Record<string, unknown>;
+  /** Content decoded before the failure */
+  receivedContent?: string;
+  /** Number of chunks decoded before the failure */
+  receivedChunks?: number;
+  /** Last frame's data, when it could not be parsed */
+  truncatedChunk?: string;
+  /** Whether the stream reached its terminator (e.g. `[DONE]`, `message_stop`) */
+  completed?: boolean;
+}
+
+/**
+ * How a stream failed
+ */
+export type StreamFailureKind = 'error_event' | 'truncated_chunk' | 'connection' | 'ended_early' | 'error';
+
+/**
+ * Stream details attached to a classified streaming failure
+ */
+export interface StreamFailureInfo {
+  kind: StreamFailureKind;
+  receivedChars: number;
+  receivedChunks: number;
+  /** The received content is a valid prefix to continue generating from */
+  resumable: boolean;
+  /** Starting over is allowed; any received content must be discarded first */
+  retryFromScratch: boolean;
+}
+
+/**
+ * Classified streaming failure
+ */
+export interface ClassifiedStreamError<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>
+  extends ClassifiedError<TCode, TClass> {
+  stream: StreamFailureInfo;
+}
+
+/** Stream terminators used by OpenAI- and Anthropic-style SSE streams */
+const TERMINATORS = new Set(['[DONE]']);
+const TERMINATOR_EVENTS = new Set(['message_stop', 'done']);
+
+/**
+ * Check whether a value is a non-null object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Turn SSE error frame data into an Error shaped like a provider error,
+ * so provider types (e.g. `overloaded_error`) reach the rules
+ */
+function errorFromEvent(data: string | Record<string, unknown>): Error {
+  let body: unknown = data;
+  if (typeof data === 'string') {
+    try {
+      body = JSON.parse(data);
+    } catch {
+      return new Error(data);
+    }
+  }
+  if (!isObject(body)) return new Error(String(body));
+
+  const nested = isObject(body.error) ? body.error : body;
+  const message = typeof nested.message === 'string' ? nested.message : JSON.stringify(body);
+  return Object.assign(new Error(message), { error: body });
+}
+
+/**
+ * Classify a failed stream.
+ *
+ * Provider errors (from an error frame or a thrown error) keep their code;
+ * network failures become `CONNECTION_ERROR` / `TIMEOUT` as usual; truncated
+ * chunks and streams that stop without a terminator become `INVALID_RESPONSE`,
+ * or `EMPTY_RESPONSE` when nothing was received.
+ */
+export function classifyStreamFailure<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  classifier: ErrorClassifier<TCode, TClass>,
+  failure: StreamFailure,
+  options: { provider?: string } = {},
+): ClassifiedStreamError<TCode, TClass> {
+  const receivedChars = failure.receivedContent?.length ?? 0;
+  const receivedChunks = failure.receivedChunks ?? 0;
+  const classifyCode = (code: ErrorCode, message: string) =>
+    classifier.classify(code as TCode, { message, provider: options.provider });
+
+  let kind: StreamFailureKind;
+  let classified: ClassifiedError<TCode, TClass>;
+
+  if (failure.errorEvent !== undefined) {
+    kind = 'error_event';
+    classified = classifier.classify(errorFromEvent(failure.errorEvent), options);
+  } else if (failure.error !== undefined && !(failure.error instanceof SyntaxError)) {
+    classified = classifier.classify(
+      failure.error instanceof Error ? failure.error : String(failure.error),
+      options,
+    );
+    kind = ['network', 'timeout'].includes(classified.classification) ? 'connection' : 'error';
+  } else if (failure.truncatedChunk !== undefined || failure.error instanceof SyntaxError) {
+    kind = 'truncated_chunk';
+    classified = classifyCode(ErrorCode.INVALID_RESPONSE, 'Stream ended with a truncated chunk');
+  } else if (!failure.completed) {
+    kind = 'ended_early';
+    classified = classifyCode(ErrorCode.INVALID_RESPONSE, 'Stream ended before completion');
+  } else {
+    kind = 'error';
+    classified = classifyCode(ErrorCode.UNKNOWN_ERROR, 'Stream failed');
+  }
+
+  // Malformed output with nothing usable is an empty response
+  if (receivedChars === 0 && (classified.code as string) === ErrorCode.INVALID_RESPONSE) {
+    classified = classifyCode(ErrorCode.EMPTY_RESPONSE, classified.message);
+  }
+
+  return {
+    ...classified,
+    stream: {
+      kind,
+      receivedChars,
+      receivedChunks,
+      resumable: receivedChars > 0 && classified.retryable,
+      retryFromScratch: classified.retryable,
+    },
+  };
+}
+
+/**
+ * Records stream progress so a failure can be classified with
+ * `classifyStreamFailure(classifier, monitor.getFailure(error))`
+ */
+export class StreamMonitor {
+  private content = '';
+  private chunks = 0;
+  private completed = false;
+  private truncatedChunk?: string;
+  private errorEvent?: string;
+
+  /**
+   * Record decoded content
+   */
+  recordContent(text: string): void {
+    this.content += text;
+    this.chunks++;
+  }
+
+  /**
+   * Record an SSE frame. Error frames, terminators and
+   * unparseable JSON data are remembered.
+   */
+  recordFrame(data: string, event?: string): void {
+    if (event === 'error') {
+      this.errorEvent = data;
+      return;
+    }
+    const trimmed = data.trim();
+    if (TERMINATORS.has(trimmed) || (event !== undefined && TERMINATOR_EVENTS.has(event))) {
+      this.completed = true;
+      return;
+    }
+
+    if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+      try {
+        JSON.parse(trimmed);
+        this.truncatedChunk = undefined;
+      } catch {
+        this.truncatedChunk = data;
+      }
+    }
+  }
+
+  /**
+   * Mark the stream as complete
+   */
+  complete(): void {
+    this.completed = true;
+  }
+
+  /**
+   * Content received so far
+   */
+  getContent(): string {
+    return this.content;
+  }
+
+  /**
+   * Describe the failure, optionally with the error thrown by the reader
+   */
+  getFailure(error?: unknown): StreamFailure {
+    return {
+      ...(error !== undefined && { error }),
+      ...(this.errorEvent !== undefined && { errorEvent: this.errorEvent }),
+      receivedContent: this.content,
+      receivedChunks: this.chunks,
+      ...(this.truncatedChunk !== undefined && { truncatedChunk: this.truncatedChunk }),
+      completed: this.completed,
+    };
+  }
+}
+
+/**
+ * Create a stream monitor
+ */
+export function createStreamMonitor(): StreamMonitor {
+  return new StreamMonitor();
+}
@@ -25,6 +25,8 @@ export interface AgentConfig {
   apiKey?: string;
   /** Model identifier */
   model?: string;
+  /** Context window of `model` in tokens */
+  contextWindow?: number;
   /** Maximum requests per minute */
   rateLimit?: number;
   /** Custom metadata */
@@ -97,7 +99,7 @@ export interface ResponseMetadata {
 /**
  * Main retry configuration
  */
-export interface RetryConfig {
+export interface RetryConfig<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> {
   /** Maximum number of retry attempts */
   maxRetries: number;
   /** Base delay in milliseconds */
@@ -108,6 +110,8 @@ export interface RetryConfig {
   backoffMultiplier: number;
   /** Whether to add jitter to delays */
   jitter: boolean;
+  /** Jitter strategy used when `jitter` is enabled (default 'full') */
+  jitterStrategy?: JitterStrategy;
   /** Circuit breaker configuration */
   circuitBreaker?: CircuitBreakerConfig;
   /** Adaptive retry configuration */
@@ -116,12 +120,84 @@ export interface RetryConfig {
   qualityGates?: QualityGatesConfig;
   /** Timeout configuration */
   timeout?: TimeoutConfig;
+  /** Cap on retries relative to recent requests */
+  retryBudget?: RetryBudgetConfig;
   /** Error codes that should trigger fallback */
-  fallbackOnErrors?: ErrorCode[];
+  fallbackOnErrors?: TCode[];
   /** Custom retryable errors */
-  retryableErrors?: string[];
+  retryableErrors?: TCode[];
+  /** Code overrides and extra rules, usually loaded from a policy file */
+  policy?: ClassificationPolicy<TCode, TClass>;
 }
 
+/**
+ * Classification rule in serializable form, as written in a policy file
+ */
+export interface PolicyRule<TCode extends string = ErrorCode> {
+  id: string;
+  code: TCode;
+  /** Evaluation order among policy rules, higher first (default 0) */
+  priority?: number;
+  /** Regular expression source matched against the message */
+  message?: string;
+  /** Flags for `message` (default 'i') */
+  flags?: string;
+  /** Exact error name */
+  name?: string;
+  status?: number | number[];
+  errorCode?: string | string[];
+  errorType?: string | string[];
+}
+
+/**
+ * Classification overrides applied on top of the built-in behaviour.
+ * Policy rules are tried before provider profiles and the general rules.
+ */
+export interface ClassificationPolicy<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> {
+  /** Per-code overrides, merged over the existing definition */
+  codes?: Partial<Record<TCode, Partial<ErrorCodeDefinition<TClass>>>>;
+  rules?: PolicyRule<TCode>[];
+  /** Retry / fallback switches that can also turn behaviour off */
+  overrides?: BehaviorOverrides<TCode, TClass>;
+}
+
+/**
+ * Explicitly allow (true) or deny (false) retry and fallback
+ */
+export interface BehaviorOverride {
+  retryable?: boolean;
+  shouldFallback?: boolean;
+}
+
+/**
+ * Overrides within one scope, by error code and by classification
+ */
+export interface BehaviorOverrideScope<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> {
+  codes?: Partial<Record<TCode, BehaviorOverride>>;
+  classifications?: Partial<Record<TClass, BehaviorOverride>>;
+}
+
+/**
+ * Scoped retry / fallback overrides.
+ *
+ * Applied from least to most specific, each layer replacing the values it
+ * sets: the code definition and `retryableErrors` / `fallbackOnErrors`, then
+ * global, provider and agent scopes, and within a scope the classification
+ * before the code.
+ */
+export interface BehaviorOverrides<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>
+  extends BehaviorOverrideScope<TCode, TClass> {
+  /** Keyed by `AgentConfig.provider` (case-insensitive) */
+  providers?: Record<string, BehaviorOverrideScope<TCode, TClass>>;
+  /** Keyed by `AgentConfig.name` */
+  agents?: Record<string, BehaviorOverrideScope<TCode, TClass>>;
+}
+
+/**
+ * Jitter strategy for exponential backoff
+ */
+export type JitterStrategy = 'none' | 'full' | 'equal' | 'decorrelated';
+
 /**
  * Circuit breaker configuration
  */
@@ -152,6 +228,20 @@ export interface AdaptiveRetryConfig {
   maxDelayMultiplier?: number;
 }
 
+/**
+ * Retry budget configuration.
+ * Within the sliding window, retries may not exceed
+ * `minRetries + ratio * requests`.
+ */
+export interface RetryBudgetConfig {
+  /** Retries allowed per request in the window (e.g. 0.2 = 20%) */
+  ratio: number;
+  /** Retries always allowed per window, so low traffic can still retry */
+  minRetries: number;
+  /** Window length in milliseconds */
+  windowMs: number;
+}
+
 /**
  * Quality gates configuration
  */
@@ -234,15 +324,165 @@ export type ErrorClassification =
   | 'system'
   | 'unknown';
 
+/**
+ * Default behaviour associated with an error code
+ */
+export interface ErrorCodeDefinition<TClass extends string = ErrorClassification> {
+  classification: TClass;
+  retryable: boolean;
+  shouldFallback: boolean;
+}
+
+/**
+ * Definitions for user-defined error codes.
+ * Codes outside the built-in enum must be defined; built-ins may be overridden.
+ */
+export type ErrorCodeDefinitions<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> = { [K in Exclude<TCode, ErrorCode>]: ErrorCodeDefinition<TClass> }
+  & { [K in Extract<TCode, ErrorCode>]?: ErrorCodeDefinition<TClass> };
+
 /**
  * Error classification result
  */
-export interface ClassifiedError {
-  code: ErrorCode;
-  classification: ErrorClassification;
+export interface ClassifiedError<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> {
+  code: TCode;
+  classification: TClass;
   retryable: boolean;
   shouldFallback: boolean;
   message: string;
+  /** Localized message safe to show end users; set when user messages are enabled */
+  userMessage?: string;
+  /** Hash of the code and the message with volatile tokens (IDs, numbers, URLs) removed */
+  fingerprint?: string;
+  /** HTTP status found on the error or its causes */
+  status?: number;
+  /** How long the provider asked us to wait before retrying */
+  retryAfterMs?: number;
+  /** Remaining quota reported by the provider */
+  rateLimit?: RateLimitInfo;
+  /** Token counts reported with a context-length error */
+  contextLength?: ContextLengthInfo;
+  /** Probability the learned classifier gave the code; only set when it chose the code */
+  confidence?: number;
+  /** How the code was chosen; only set when classifying with `explain` */
+  trace?: ClassificationTrace<TCode>;
+}
+
+/**
+ * Rule matcher that contributed to a match
+ */
+export type RuleMatcher = 'message' | 'name' | 'status' | 'errorCode' | 'errorType' | 'instanceOf' | 'test';
+
+/**
+ * Where a classification came from: a known code passed directly,
+ * a policy rule, a provider profile rule, a general rule, the learned
+ * classifier, or nothing (unknown)
+ */
+export type ClassificationSource = 'code' | 'policy' | 'provider' | 'rules' | 'learned' | 'fallback';
+
+/**
+ * A rule that matched while classifying
+ */
+export interface ClassificationCandidate<TCode extends string = ErrorCode> {
+  ruleId: string;
+  code: TCode;
+  source: 'policy' | 'provider' | 'rules';
+  priority: number;
+  /** Matchers of the rule that matched */
+  matchers: RuleMatcher[];
+  /** Text matched by the rule's message pattern */
+  keyword?: string;
+  /** Position in the error chain (0 = the error itself, then causes) */
+  depth: number;
+}
+
+/**
+ * Decision path of a classification
+ */
+export interface ClassificationTrace<TCode extends string = ErrorCode> {
+  /** Confidence in the chosen code, from 0 (unknown) to 1 (exact code) */
+  confidence: number;
+  source: ClassificationSource;
+  /** The winning candidate, if a rule matched */
+  matched?: ClassificationCandidate<TCode>;
+  /** Every matching rule in evaluation order, winner first */
+  candidates: ClassificationCandidate<TCode>[];
+}
+
+/**
+ * Token counts reported with a context-length error
+ */
+export interface ContextLengthInfo {
+  /** Context window of the model */
+  limit?: number;
+  /** Size of the request, prompt plus requested completion when reported */
+  requested?: number;
+  /** Tokens over the limit (`requested - limit`) */
+  overflow?: number;
+}
+
+/**
+ * Rate limit quota reported by a provider
+ */
+export interface RateLimitInfo {
+  limitRequests?: number;
+  limitTokens?: number;
+  remainingRequests?: number;
+  remainingTokens?: number;
+  /** Time until the request quota resets, in milliseconds */
+  resetRequestsMs?: number;
+  /** Time until the token quota resets, in milliseconds */
+  resetTokensMs?: number;
+}
+
+/**
+ * Context for a retry decision
+ */
+export interface RetryContext {
+  /** Delay used before the previous attempt (for decorrelated jitter) */
+  previousDelay?: number;
+  /** Multiplier applied to the backoff delay (e.g. from adaptive retry) */
+  delayMultiplier?: number;
+  /** Retry budget overriding `RetryConfig.maxRetries` */
+  maxRetries?: number;
+  /** Rate limiter of the agent being retried; a committed retry takes one token */
+  tokenBucket?: { tryTake(): boolean; getAvailable(): number };
+  /** Time left for the retry to start, in milliseconds; a longer delay stops retrying */
+  remainingMs?: number;
+}
+
+/**
+ * Reason a retry was not recommended
+ */
+export type RetryStopReason =
+  | 'not_retryable'
+  | 'max_retries_exceeded'
+  | 'retry_after_exceeds_max_delay'
+  | 'budget_exhausted'
+  | 'deadline_exceeded';
+
+/**
+ * Recommendation for whether and when to retry a failed attempt
+ */
+export interface RetryDecision<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> {
+  /** Whether another attempt should be made */
+  retry: boolean;
+  /** Delay in milliseconds before the next attempt (0 when not retrying) */
+  delay: number;
+  /** The retry attempt this decision is for (1 = first retry) */
+  attempt: number;
+  /** Why retrying was ruled out */
+  reason?: RetryStopReason;
+  /** The classified error */
+  error: ClassifiedError<TCode, TClass>;
 }
 
 // ============================================================================
@@ -279,9 +519,14 @@ export interface SystemStatus {
   overallHealthy: boolean;
   currentAgent?: string;
   agents: AgentStatus[];
+  /** Requests (e.g. `FallbackExecutor.execute()` calls), however many attempts each took */
   totalRequests: number;
   successfulRequests: number;
   failedRequests: number;
+  /** Attempts across all agents, including retries and fallbacks */
+  totalAttempts: number;
+  failedAttempts: number;
+  /** Average latency of successful attempts */
   averageLatency: number;
   uptime: number;
 }
@@ -293,27 +538,31 @@ export interface SystemStatus {
 /**
  * Events emitted by the system
  */
-export interface SystemEvents {
-  'retry:attempt': RetryAttemptEvent;
+export interface SystemEvents<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> {
+  'retry:attempt': RetryAttemptEvent<TCode>;
   'retry:success': RetrySuccessEvent;
-  'retry:failure': RetryFailureEvent;
-  'fallback:triggered': FallbackTriggeredEvent;
+  'retry:failure': RetryFailureEvent<TCode>;
+  'fallback:triggered': FallbackTriggeredEvent<TCode>;
   'circuit:opened': CircuitOpenedEvent;
   'circuit:closed': CircuitClosedEvent;
   'circuit:half-open': CircuitHalfOpenEvent;
   'quality:gate-failed': QualityGateFailedEvent;
-  'error:classified': ErrorClassifiedEvent;
+  'error:classified': ErrorClassifiedEvent<TCode, TClass>;
+  'request:completed': RequestCompletedEvent<TCode>;
 }
 
 /**
  * Retry attempt event
  */
-export interface RetryAttemptEvent {
+export interface RetryAttemptEvent<TCode extends string = ErrorCode> {
   agentName: string;
   attemptNumber: number;
   maxRetries: number;
   delay: number;
-  error?: ErrorCode;
+  error?: TCode;
 }
 
 /**
@@ -328,19 +577,19 @@ export interface RetrySuccessEvent {
 /**
  * Retry failure event
  */
-export interface RetryFailureEvent {
+export interface RetryFailureEvent<TCode extends string = ErrorCode> {
   agentName: string;
   totalAttempts: number;
-  finalError: ErrorCode;
+  finalError: TCode;
 }
 
 /**
  * Fallback triggered event
  */
-export interface FallbackTriggeredEvent {
+export interface FallbackTriggeredEvent<TCode extends string = ErrorCode> {
   fromAgent: string;
   toAgent: string;
-  reason: ErrorCode;
+  reason: TCode;
   attemptNumber: number;
 }
 
@@ -382,11 +631,30 @@ export interface QualityGateFailedEvent {
 /**
  * Error classified event
  */
-export interface ErrorClassifiedEvent {
-  error: ErrorCode;
-  classification: ErrorClassification;
+export interface ErrorClassifiedEvent<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> {
+  error: TCode;
+  classification: TClass;
   retryable: boolean;
   shouldFallback: boolean;
+  /** Agent passed to `classify()`, if any */
+  agentName?: string;
+  /** Provider used for classification, if any */
+  provider?: string;
+}
+
+/**
+ * Emitted when `FallbackExecutor.execute()` settles
+ */
+export interface RequestCompletedEvent<TCode extends string = ErrorCode> {
+  /** Agent that produced the final response */
+  agentName: string;
+  success: boolean;
+  latency: number;
+  retries: number;
+  errorCode?: TCode;
 }
 
 // ============================================================================
@@ -450,6 +718,127 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   ],
 };
 
+/**
+ * Default classification for each built-in error code
+ */
+export const DEFAULT_ERROR_DEFINITIONS: Record<ErrorCode, ErrorCodeDefinition> = {
+  // Network errors
+  [ErrorCode.TIMEOUT]: {
+    classification: 'timeout',
+    retryable: true,
+    shouldFallback: true,
+  },
+  [ErrorCode.CONNECTION_ERROR]: {
+    classification: 'network',
+    retryable: true,
+    shouldFallback: true,
+  },
+  [ErrorCode.DNS_ERROR]: {
+    classification: 'network',
+    retryable: true,
+    shouldFallback: true,
+  },
+
+  // Authentication errors
+  [ErrorCode.AUTHENTICATION_ERROR]: {
+    classification: 'authentication',
+    retryable: false,
+    shouldFallback: false,
+  },
+  [ErrorCode.INVALID_API_KEY]: {
+    classification: 'authentication',
+    retryable: false,
+    shouldFallback: true,
+  },
+  [ErrorCode.PERMISSION_DENIED]: {
+    classification: 'authentication',
+    retryable: false,
+    shouldFallback: false,
+  },
+
+  // Rate limiting
+  [ErrorCode.RATE_LIMIT]: {
+    classification: 'rate_limit',
+    retryable: true,
+    shouldFallback: true,
+  },
+  [ErrorCode.QUOTA_EXCEEDED]: {
+    classification: 'rate_limit',
+    retryable: false,
+    shouldFallback: true,
+  },
+
+  // Model errors
+  [ErrorCode.MODEL_NOT_FOUND]: {
+    classification: 'model',
+    retryable: false,
+    shouldFallback: true,
+  },
+  [ErrorCode.MODEL_OVERLOADED]: {
+    classification: 'model',
+    retryable: true,
+    shouldFallback: true,
+  },
+  [ErrorCode.CONTEXT_LENGTH_EXCEEDED]: {
+    classification: 'model',
+    retryable: false,
+    shouldFallback: true,
+  },
+
+  // Response errors
+  [ErrorCode.INVALID_RESPONSE]: {
+    classification: 'quality',
+    retryable: true,
+    shouldFallback: true,
+  },
+  [ErrorCode.PARSE_ERROR]: {
+    classification: 'quality',
+    retryable: true,
+    shouldFallback: true,
+  },
+  [ErrorCode.EMPTY_RESPONSE]: {
+    classification: 'quality',
+    retryable: true,
+    shouldFallback: true,
+  },
+
+  // Quality errors
+  [ErrorCode.QUALITY_THRESHOLD_NOT_MET]: {
+    classification: 'quality',
+    retryable: false,
+    shouldFallback: true,
+  },
+  [ErrorCode.LATENCY_TOO_HIGH]: {
+    classification: 'quality',
+    retryable: false,
+    shouldFallback: true,
+  },
+
+  // System errors
+  [ErrorCode.INTERNAL_ERROR]: {
+    classification: 'system',
+    retryable: true,
+    shouldFallback: false,
+  },
+  [ErrorCode.SERVICE_UNAVAILABLE]: {
+    classification: 'system',
+    retryable: true,
+    shouldFallback: true,
+  },
+  [ErrorCode.UNKNOWN_ERROR]: {
+    classification: 'unknown',
+    retryable: false,
+    shouldFallback: false,
+  },
+
+  // Custom errors
+  [ErrorCode.CUSTOM_ERROR]: {
+    classification: 'unknown',
+    retryable: false,
+    shouldFallback: false,
+  },
+};
+
 /**
  * Default timeout configuration
  */
@@ -467,6 +856,15 @@ export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
   halfOpenAttempts: 3,
 };
 
+/**
+ * Default retry budget configuration
+ */
+export const DEFAULT_RETRY_BUDGET_CONFIG: RetryBudgetConfig = {
+  ratio: 0.2,
+  minRetries: 10,
+  windowMs: 10000,
+};
+
 /**
  * Default quality gates configuration
  */
@@ -0,0 +1,233 @@
+/**
+ * User Messages Module
+ *
+ * Localized, end-user-safe messages for classified errors, looked up by
+ * error code and classification, with placeholder interpolation and a
+ * redaction pass for secrets and personal data.
+ */
+
+import { ClassifiedError, ErrorClassification, ErrorCode } from './types';
+import { redactSecrets } from './serialization';
+
+/**
+ * Messages of one locale. Templates may use `{retryAfterSeconds}`, `{status}`,
+ * `{limit}`, `{requested}`, `{overflow}`, `{code}`, `{classification}` and
+ * `{detail}` (the sanitized raw message).
+ */
+export interface MessageCatalog<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> {
+  codes?: Partial<Record<TCode, string>>;
+  classifications?: Partial<Record<TClass, string>>;
+  /** Used when neither the code nor the classification has a usable template */
+  default?: string;
+}
+
+/**
+ * Message catalogs by locale, e.g. `en`, `de`, `pt-BR`
+ */
+export type MessageCatalogs<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> =
+  Record<string, MessageCatalog<TCode, TClass>>;
+
+/**
+ * Options for producing user messages
+ */
+export interface UserMessageOptions<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> {
+  /** Locale to use, e.g. `de-AT`, which falls back to `de` (default `en`) */
+  locale?: string;
+  /** Locale used when the requested one has no usable template (default `en`) */
+  fallbackLocale?: string;
+  /** Catalogs merged over the built-in ones, per locale */
+  catalogs?: MessageCatalogs<TCode, TClass>;
+  /** Literal secrets to redact, e.g. configured API keys */
+  secrets?: readonly string[];
+}
+
+/**
+ * Built-in catalogs
+ */
+export const DEFAULT_MESSAGE_CATALOGS: MessageCatalogs = {
+  en: {
+    codes: {
+      [ErrorCode.RATE_LIMIT]: 'Too many requests right now. Please try again in {retryAfterSeconds} seconds.',
+      [ErrorCode.QUOTA_EXCEEDED]: 'The usage limit for this service has been reached. Please try again later.',
+      [ErrorCode.CONTEXT_LENGTH_EXCEEDED]:
+        'Your request is too long ({requested} tokens, limit {limit}). Please shorten it and try again.',
+      [ErrorCode.MODEL_OVERLOADED]: 'The AI model is busy. Please try again in a moment.',
+      [ErrorCode.SERVICE_UNAVAILABLE]: 'The service is temporarily unavailable. Please try again later.',
+      [ErrorCode.EMPTY_RESPONSE]: 'The service returned an empty response. Please try again.',
+    },
+    classifications: {
+      timeout: 'The request took too long. Please try again.',
+      rate_limit: 'Too many requests right now. Please try again shortly.',
+      authentication: 'The service could not be authorized. Please contact support if this continues.',
+      model: 'The AI model could not handle this request. Please try again later.',
+      quality: 'We could not produce a good enough response. Please try again.',
+      network: 'We could not reach the service. Please check your connection and try again.',
+      system: 'The service is having problems. Please try again later.',
+      unknown: 'Something went wrong. Please try again.',
+    },
+    default: 'Something went wrong. Please try again.',
+  },
+  es: {
+    codes: {
+      [ErrorCode.RATE_LIMIT]:
+        'Hay demasiadas solicitudes en este momento. Inténtalo de nuevo en {retryAfterSeconds} segundos.',
+      [ErrorCode.CONTEXT_LENGTH_EXCEEDED]:
+        'Tu solicitud es demasiado larga ({requested} tokens, límite {limit}). Acórtala e inténtalo de nuevo.',
+    },
+    classifications: {
+      timeout: 'La solicitud tardó demasiado. Inténtalo de nuevo.',
+      rate_limit: 'Hay demasiadas solicitudes en este momento. Inténtalo de nuevo en breve.',
+      authentication: 'No se pudo autorizar el servicio. Contacta con soporte si el problema continúa.',
+      model: 'El modelo de IA no pudo procesar esta solicitud. Inténtalo de nuevo más tarde.',
+      quality: 'No pudimos generar una respuesta adecuada. Inténtalo de nuevo.',
+      network: 'No pudimos conectar con el servicio. Comprueba tu conexión e inténtalo de nuevo.',
+      system: 'El servicio tiene problemas. Inténtalo de nuevo más tarde.',
+      unknown: 'Algo salió mal. Inténtalo de nuevo.',
+    },
+    default: 'Algo salió mal. Inténtalo de nuevo.',
+  },
+  de: {
+    codes: {
+      [ErrorCode.RATE_LIMIT]: 'Zu viele Anfragen. Bitte versuche es in {retryAfterSeconds} Sekunden erneut.',
+      [ErrorCode.CONTEXT_LENGTH_EXCEEDED]:
+        'Deine Anfrage ist zu lang ({requested} Tokens, Limit {limit}). Bitte kürze sie und versuche es erneut.',
+    },
+    classifications: {
+      timeout: 'Die Anfrage hat zu lange gedauert. Bitte versuche es erneut.',
+      rate_limit: 'Zu viele Anfragen. Bitte versuche es gleich noch einmal.',
+      authentication:
+        'Der Dienst konnte nicht autorisiert werden. Bitte wende dich an den Support, falls das Problem bestehen bleibt.',
+      model: 'Das KI-Modell konnte diese Anfrage nicht verarbeiten. Bitte versuche es später erneut.',
+      quality: 'Wir konnten keine ausreichend gute Antwort erzeugen. Bitte versuche es erneut.',
+      network: 'Der Dienst ist nicht erreichbar. Bitte prüfe deine Verbindung und versuche es erneut.',
+      system: 'Beim Dienst ist ein Problem aufgetreten. Bitte versuche es später erneut.',
+      unknown: 'Etwas ist schiefgelaufen. Bitte versuche es erneut.',
+    },
+    default: 'Etwas ist schiefgelaufen. Bitte versuche es erneut.',
+  },
+  fr: {
+    codes: {
+      [ErrorCode.RATE_LIMIT]: 'Trop de requêtes pour le moment. Veuillez réessayer dans {retryAfterSeconds} secondes.',
+      [ErrorCode.CONTEXT_LENGTH_EXCEEDED]:
+        'Votre requête est trop longue ({requested} jetons, limite {limit}). Raccourcissez-la et réessayez.',
+    },
+    classifications: {
+      timeout: 'La requête a pris trop de temps. Veuillez réessayer.',
+      rate_limit: 'Trop de requêtes pour le moment. Veuillez réessayer dans un instant.',
+      authentication: "Le service n'a pas pu être autorisé. Contactez le support si le problème persiste.",
+      model: "Le modèle d'IA n'a pas pu traiter cette requête. Veuillez réessayer plus tard.",
+      quality: "Nous n'avons pas pu produire une réponse satisfaisante. Veuillez réessayer.",
+      network: 'Impossible de joindre le service. Vérifiez votre connexion et réessayez.',
+      system: 'Le service rencontre des problèmes. Veuillez réessayer plus tard.',
+      unknown: "Une erreur s'est produite. Veuillez réessayer.",
+    },
+    default: "Une erreur s'est produite. Veuillez réessayer.",
+  },
+};
+
+/**
+ * Personal data and internal details, redacted after secrets
+ */
+const PII_PATTERNS: Array<[RegExp, string]> = [
+  [/\b[a-z][a-z0-9+.-]*:\/\/[^\s"'<>)]+/gi, '[url]'],
+  [/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, '[email]'],
+  [/\b\d{1,3}(?:\.\d{1,3}){3}(?::\d+)?\b/g, '[ip]'],
+  [/\b(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:com|net|org|io|ai|dev|cloud|internal|local)(?::\d+)?\b/gi, '[host]'],
+  // Phone and card numbers: nine or more digits, optionally separated
+  [/\+?\d(?:[\s().-]{0,2}\d){8,}/g, '[number]'],
+];
+
+/**
+ * Redact secrets (as in `redactSecrets`), URLs, email addresses,
+ * IP addresses, hostnames and long digit sequences
+ */
+export function sanitizeMessage(text: string, secrets: readonly string[] = []): string {
+  let sanitized = redactSecrets(text, secrets);
+  for (const [pattern, replacement] of PII_PATTERNS) {
+    sanitized = sanitized.replace(pattern, replacement);
+  }
+  return sanitized;
+}
+
+/**
+ * Locales to try, most specific first: `de-AT` -> `de-AT`, `de`, then the fallback
+ */
+function localeChain(locale: string, fallbackLocale: string): string[] {
+  const chain: string[] = [];
+  for (const candidate of [locale, fallbackLocale]) {
+    const parts = candidate.split(/[-_]/);
+    for (let i = parts.length; i > 0; i--) {
+      const tag = parts.slice(0, i).join('-');
+      if (!chain.includes(tag)) chain.push(tag);
+    }
+  }
+  return chain;
+}
+
+/**
+ * Fill `{name}` placeholders, or return undefined when a value is missing
+ */
+function interpolate(template: string, params: Record<string, string | undefined>): string | undefined {
+  let missing = false;
+  const text = template.replace(/\{(\w+)\}/g, (_, name: string) => {
+    const value = params[name];
+    if (value === undefined) missing = true;
+    return value ?? '';
+  });
+  return missing ? undefined : text;
+}
+
+/**
+ * Format a number for a locale, falling back to plain digits for unknown locales
+ */
+function formatNumber(value: number | undefined, locale: string): string | undefined {
+  if (value === undefined) return undefined;
+  try {
+    return new Intl.NumberFormat(locale).format(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Build the localized, sanitized message to show end users for a classified error.
+ * For each locale, the code's template is tried, then the classification's,
+ * then the catalog default; templates whose placeholders cannot be filled are skipped.
+ */
+export function getUserMessage<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  error: ClassifiedError<TCode, TClass>,
+  options: UserMessageOptions<TCode, TClass> = {},
+): string {
+  const locale = options.locale ?? 'en';
+  const defaults = DEFAULT_MESSAGE_CATALOGS as MessageCatalogs<TCode, TClass>;
+  const params = {
+    code: error.code,
+    classification: error.classification,
+    status: error.status !== undefined ? String(error.status) : undefined,
+    retryAfterSeconds: error.retryAfterMs !== undefined
+      ? formatNumber(Math.max(1, Math.ceil(error.retryAfterMs / 1000)), locale)
+      : undefined,
+    limit: formatNumber(error.contextLength?.limit, locale),
+    requested: formatNumber(error.contextLength?.requested, locale),
+    overflow: formatNumber(error.contextLength?.overflow, locale),
+    detail: sanitizeMessage(error.message, options.secrets),
+  };
+
+  for (const tag of localeChain(locale, options.fallbackLocale ?? 'en')) {
+    const builtIn = defaults[tag];
+    const custom = options.catalogs?.[tag];
+    if (!builtIn && !custom) continue;
+
+    const templates = [
+      custom?.codes?.[error.code] ?? builtIn?.codes?.[error.code],
+      custom?.classifications?.[error.classification] ?? builtIn?.classifications?.[error.classification],
+      custom?.default ?? builtIn?.default,
+    ];
+    for (const template of templates) {
+      // Templates are trusted; the only raw text they can include is the sanitized `detail`
+      const text = template !== undefined ? interpolate(template, params) : undefined;
+      if (text !== undefined) return text;
+    }
+  }
+  return DEFAULT_MESSAGE_CATALOGS.en.default!;
+}
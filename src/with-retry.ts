@@ -0,0 +1,129 @@
+/**
+ * With Retry Module
+ *
+ * Retries arbitrary async operations (HTTP calls, database calls) using the
+ * classifier's retry decisions, without a fallback chain.
+ */
+
+import {
+  ClassifiedError,
+  ErrorClassification,
+  ErrorCode,
+  RetryConfig,
+  RetryDecision,
+  RetryStopReason,
+  DEFAULT_RETRY_CONFIG,
+} from './types';
+import { ErrorClassifier } from './error-classifier';
+import { abortError, sleep as abortableSleep } from './sleep';
+
+/**
+ * Options for `withRetry` and `retryable`
+ */
+export interface WithRetryOptions<TCode extends string = ErrorCode, TClass extends string = ErrorClassification> {
+  /** Classifier making the retry decisions */
+  classifier?: ErrorClassifier<TCode, TClass>;
+  /** Retry settings for a new classifier; ignored when `classifier` is given */
+  config?: RetryConfig<TCode, TClass>;
+  /** Stops retrying and rejects with the abort reason */
+  signal?: AbortSignal;
+  /** Provider profile used to classify failures */
+  provider?: string;
+  /** Called before waiting for each retry */
+  onRetry?: (decision: RetryDecision<TCode, TClass>) => void;
+  /** Delay implementation, mainly for tests */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Thrown when an operation fails for good.
+ * `errors` holds every attempt's thrown value, `attempts` their classifications.
+ */
+export class RetryError<
+  TCode extends string = ErrorCode,
+  TClass extends string = ErrorClassification,
+> extends AggregateError {
+  readonly attempts: ClassifiedError<TCode, TClass>[];
+  readonly reason: RetryStopReason;
+
+  constructor(errors: unknown[], attempts: ClassifiedError<TCode, TClass>[], reason: RetryStopReason) {
+    const last = attempts[attempts.length - 1];
+    super(errors, `Failed after ${attempts.length} attempt(s) (${reason}): ${last.code}: ${last.message}`);
+    this.name = 'RetryError';
+    this.attempts = attempts;
+    this.reason = reason;
+  }
+
+  /**
+   * Classification of the final attempt
+   */
+  get lastError(): ClassifiedError<TCode, TClass> {
+    return this.attempts[this.attempts.length - 1];
+  }
+}
+
+/**
+ * Run `fn`, retrying while the classifier allows it.
+ * `fn` receives the attempt number, starting at 0.
+ * Rejects with a RetryError when retries stop, or the abort reason when aborted.
+ */
+export async function withRetry<T, TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  fn: (attempt: number) => T | Promise<T>,
+  options: WithRetryOptions<TCode, TClass> = {},
+): Promise<T> {
+  const classifier = options.classifier
+    ?? new ErrorClassifier<TCode, TClass>(options.config ?? (DEFAULT_RETRY_CONFIG as RetryConfig<TCode, TClass>));
+  const { signal } = options;
+  const sleep = options.sleep ?? abortableSleep;
+  const errors: unknown[] = [];
+  const attempts: ClassifiedError<TCode, TClass>[] = [];
+  let previousDelay: number | undefined;
+
+  classifier.recordRequest();
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError(signal);
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (signal?.aborted) throw abortError(signal);
+
+      const classified = classifier.classify(error instanceof Error ? error : String(error), {
+        provider: options.provider,
+      });
+      errors.push(error);
+      attempts.push(classified);
+
+      const decision = classifier.decideRetry(classified, attempt + 1, { previousDelay });
+      if (!decision.retry) {
+        throw new RetryError(errors, attempts, decision.reason ?? 'not_retryable');
+      }
+      previousDelay = decision.delay;
+      options.onRetry?.(decision);
+      await sleep(decision.delay, signal);
+    }
+  }
+}
+
+/**
+ * Method decorator that runs the method through `withRetry`.
+ * Without a `classifier`, one is created per decorated method and shared by
+ * all calls, so they also share its retry budget.
+ */
+export function retryable<TCode extends string = ErrorCode, TClass extends string = ErrorClassification>(
+  options: WithRetryOptions<TCode, TClass> = {},
+) {
+  const shared = {
+    ...options,
+    classifier: options.classifier
+      ?? new ErrorClassifier<TCode, TClass>(options.config ?? (DEFAULT_RETRY_CONFIG as RetryConfig<TCode, TClass>)),
+  };
+
+  return function <This, Args extends unknown[], Return>(
+    method: (this: This, ...args: Args) => Promise<Return>,
+    _context: ClassMethodDecoratorContext<This, (this: This, ...args: Args) => Promise<Return>>,
+  ) {
+    return function (this: This, ...args: Args): Promise<Return> {
+      return withRetry(() => method.apply(this, args), shared);
+    };
+  };
+}
@@ -0,0 +1,49 @@
+import { AdaptiveRetryController } from '../src/adaptive-retry';
+import { ErrorClassifier } from '../src/error-classifier';
+import { AdaptiveRetryConfig, DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+const config: AdaptiveRetryConfig = {
+  enabled: true,
+  successWeight: 1,
+  failureWeight: 1,
+  adjustmentFactor: 1,
+  minDelayMultiplier: 1,
+  maxDelayMultiplier: 4,
+};
+
+describe('AdaptiveRetryController', () => {
+  it('stretches delays and trims retries for repeated failures', () => {
+    const controller = new AdaptiveRetryController(config);
+    controller.recordFailure('primary', 'model');
+    controller.recordFailure('primary', 'model');
+    controller.recordFailure('primary', 'model');
+
+    expect(controller.getAdjustment('primary', 'model', 4)).toEqual({ delayMultiplier: 4, maxRetries: 1 });
+    expect(controller.getAdjustment('primary', 'network', 4)).toEqual({ delayMultiplier: 1, maxRetries: 4 });
+    expect(controller.getAdjustment('secondary', 'model', 4)).toEqual({ delayMultiplier: 1, maxRetries: 4 });
+  });
+
+  it('relaxes after successes, within bounds', () => {
+    const controller = new AdaptiveRetryController(config);
+    controller.recordFailure('primary', 'model');
+    controller.recordFailure('primary', 'model');
+    controller.recordSuccess('primary');
+    expect(controller.getDelayMultiplier('primary', 'model')).toBe(2);
+
+    controller.recordSuccess('primary');
+    controller.recordSuccess('primary');
+    expect(controller.getDelayMultiplier('primary', 'model')).toBe(1);
+  });
+
+  it('does nothing when disabled', () => {
+    const controller = new AdaptiveRetryController({ ...config, enabled: false });
+    controller.recordFailure('primary', 'model');
+    expect(controller.getDelayMultiplier('primary', 'model')).toBe(1);
+  });
+
+  it('feeds into retry decisions', () => {
+    const classifier = new ErrorClassifier({ ...DEFAULT_RETRY_CONFIG, baseDelay: 100, jitter: false });
+    expect(classifier.getRetryDecision(ErrorCode.MODEL_OVERLOADED, 1, { delayMultiplier: 3 }).delay).toBe(300);
+    expect(classifier.getRetryDecision(ErrorCode.MODEL_OVERLOADED, 2, { maxRetries: 1 }).retry).toBe(false);
+  });
+});
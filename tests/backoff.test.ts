@@ -0,0 +1,45 @@
+import { computeBackoffDelay } from '../src/backoff';
+import { ErrorClassifier } from '../src/error-classifier';
+import { DEFAULT_RETRY_CONFIG, ErrorCode, RetryConfig } from '../src/types';
+
+const config: RetryConfig = {
+  ...DEFAULT_RETRY_CONFIG,
+  baseDelay: 100,
+  maxDelay: 1000,
+  backoffMultiplier: 2,
+  jitter: false,
+};
+
+describe('computeBackoffDelay', () => {
+  it('grows exponentially and caps at maxDelay', () => {
+    expect([1, 2, 3, 4, 5].map((attempt) => computeBackoffDelay(config, attempt))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('applies full and equal jitter', () => {
+    const random = () => 0.5;
+    expect(computeBackoffDelay({ ...config, jitter: true }, 3, { random })).toBe(200);
+    expect(computeBackoffDelay({ ...config, jitter: true, jitterStrategy: 'equal' }, 3, { random })).toBe(300);
+  });
+
+  it('applies decorrelated jitter from the previous delay', () => {
+    const decorrelated = { ...config, jitter: true, jitterStrategy: 'decorrelated' as const };
+    expect(computeBackoffDelay(decorrelated, 2, { previousDelay: 200, random: () => 0.5 })).toBe(350);
+    expect(computeBackoffDelay(decorrelated, 2, { previousDelay: 900, random: () => 0.99 })).toBe(1000);
+  });
+});
+
+describe('ErrorClassifier.getRetryDecision', () => {
+  const classifier = new ErrorClassifier({ ...config, maxRetries: 2 });
+
+  it('recommends a delay while retries remain', () => {
+    expect(classifier.getRetryDecision(ErrorCode.TIMEOUT, 2)).toMatchObject({ retry: true, delay: 200, attempt: 2 });
+  });
+
+  it('gives up once maxRetries is exhausted', () => {
+    expect(classifier.getRetryDecision(ErrorCode.TIMEOUT, 3)).toMatchObject({ retry: false, reason: 'max_retries_exceeded' });
+  });
+
+  it('does not retry non-retryable errors', () => {
+    expect(classifier.getRetryDecision(ErrorCode.INVALID_API_KEY, 1)).toMatchObject({ retry: false, reason: 'not_retryable' });
+  });
+});
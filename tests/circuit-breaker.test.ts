@@ -0,0 +1,71 @@
+import { CircuitBreaker } from '../src/circuit-breaker';
+import { TypedEventEmitter } from '../src/events';
+import { CircuitState } from '../src/types';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let events: TypedEventEmitter;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    events = new TypedEventEmitter();
+    breaker = new CircuitBreaker(
+      'primary',
+      { failureThreshold: 2, recoveryTimeout: 1000, halfOpenAttempts: 2 },
+      { events, now: () => now },
+    );
+  });
+
+  it('opens after the failure threshold and rejects requests', () => {
+    const opened = jest.fn();
+    events.on('circuit:opened', opened);
+
+    breaker.recordFailure({ classification: 'timeout' });
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    breaker.recordFailure({ classification: 'network' });
+
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    expect(breaker.canExecute()).toBe(false);
+    expect(opened).toHaveBeenCalledWith({ agentName: 'primary', failureCount: 2, threshold: 2 });
+  });
+
+  it('ignores classifications that should not trip the breaker', () => {
+    expect(breaker.recordFailure({ classification: 'authentication' })).toBe(false);
+    expect(breaker.recordFailure({ classification: 'quality' })).toBe(false);
+    breaker.recordFailure({ classification: 'timeout' });
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+  });
+
+  it('moves to half-open after the recovery timeout and closes on enough successes', () => {
+    const halfOpen = jest.fn();
+    const closed = jest.fn();
+    events.on('circuit:half-open', halfOpen).on('circuit:closed', closed);
+
+    breaker.recordFailure({ classification: 'timeout' });
+    breaker.recordFailure({ classification: 'timeout' });
+    now = 1000;
+
+    expect(breaker.canExecute()).toBe(true);
+    expect(breaker.canExecute()).toBe(true);
+    expect(breaker.canExecute()).toBe(false);
+    expect(halfOpen).toHaveBeenCalledWith({ agentName: 'primary', attemptNumber: 1 });
+
+    breaker.recordSuccess();
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe(CircuitState.CLOSED);
+    expect(closed).toHaveBeenCalledWith({ agentName: 'primary', successCount: 2 });
+  });
+
+  it('reopens on a failure while half-open', () => {
+    breaker.recordFailure({ classification: 'timeout' });
+    breaker.recordFailure({ classification: 'timeout' });
+    now = 1000;
+    breaker.canExecute();
+    breaker.recordFailure({ classification: 'system' });
+
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+    now = 1999;
+    expect(breaker.getState()).toBe(CircuitState.OPEN);
+  });
+});
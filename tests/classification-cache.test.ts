@@ -0,0 +1,123 @@
+import { LruCache, normalizedKey } from '../src/classification-cache';
+import { ErrorClassifier } from '../src/error-classifier';
+import { extractErrorDetails } from '../src/error-details';
+import { RuleEngine } from '../src/rule-engine';
+import { DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+describe('LruCache', () => {
+  it('evicts the least recently used entry', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('b')).toBeUndefined();
+    expect([cache.get('a'), cache.get('c'), cache.size]).toEqual([1, 3, 2]);
+  });
+});
+
+describe('normalizedKey', () => {
+  it('keys plain errors by status and fields, and skips errors with headers or causes', () => {
+    const key = (error: unknown) => normalizedKey([extractErrorDetails(error)]);
+
+    expect(key(Object.assign(new Error('Overloaded'), { status: 529 })))
+      .toBe(key(Object.assign(new Error('Overloaded'), { status: 529 })));
+    expect(key(new Error(' Overloaded '))).not.toBe(key(new Error('Overloaded')));
+    expect(key(new Error('Overloaded'))).not.toBe(key(new TypeError('Overloaded')));
+    expect(key(Object.assign(new Error('Slow down'), { headers: { 'retry-after': '5' } }))).toBeUndefined();
+    expect(normalizedKey([extractErrorDetails('a'), extractErrorDetails('b')])).toBeUndefined();
+  });
+});
+
+describe('ErrorClassifier cache', () => {
+  it('classifies an Error instance once for isRetryable and shouldFallback', () => {
+    const test = jest.fn(() => true);
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, {
+      rules: [{ id: 'all', code: ErrorCode.RATE_LIMIT, test }],
+    });
+    const error = new Error('Slow down');
+
+    expect(classifier.isRetryable(error)).toBe(true);
+    expect(classifier.shouldFallback(error)).toBe(true);
+    expect(test).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not share classifications between errors when a test predicate is active', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, {
+      rules: [{ id: 'fatal', code: ErrorCode.INVALID_API_KEY, test: (details) => (details.source as { fatal?: boolean }).fatal === true }],
+    });
+
+    expect(classifier.classify(Object.assign(new Error('boom'), { fatal: true })).code).toBe(ErrorCode.INVALID_API_KEY);
+    expect(classifier.classify(Object.assign(new Error('boom'), { fatal: false })).code).toBe(ErrorCode.UNKNOWN_ERROR);
+  });
+
+  it('keeps classes that share a name apart for instanceOf rules', () => {
+    const Vendor = class VendorError extends Error {};
+    const Other = class VendorError extends Error {};
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, {
+      rules: [{ id: 'vendor', code: ErrorCode.SERVICE_UNAVAILABLE, instanceOf: Vendor }],
+    });
+
+    expect(classifier.classify(new Vendor('boom')).code).toBe(ErrorCode.SERVICE_UNAVAILABLE);
+    expect(classifier.classify(new Other('boom')).code).toBe(ErrorCode.UNKNOWN_ERROR);
+  });
+
+  it('keeps the message and fingerprint of each error', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+    const first = classifier.classify(new Error('Request timeout'));
+    const padded = classifier.classify(new Error(' Request timeout '));
+
+    expect(padded.message).toBe(' Request timeout ');
+    expect(padded.code).toBe(first.code);
+  });
+
+  it('keeps classifications separate per provider and agent', () => {
+    const classifier = new ErrorClassifier({
+      ...DEFAULT_RETRY_CONFIG,
+      policy: { overrides: { agents: { batch: { codes: { [ErrorCode.RATE_LIMIT]: { retryable: false } } } } } },
+    });
+
+    expect(classifier.classify('rate limit', { agent: 'batch' }).retryable).toBe(false);
+    expect(classifier.classify('rate limit', { agent: 'chat' }).retryable).toBe(true);
+  });
+
+  it('is cleared when rules change and can be disabled', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+    expect(classifier.classify('engine busy').code).toBe(ErrorCode.UNKNOWN_ERROR);
+    classifier.addRule({ id: 'vendor:busy', code: ErrorCode.MODEL_OVERLOADED, message: /engine busy/i });
+    expect(classifier.classify('engine busy').code).toBe(ErrorCode.MODEL_OVERLOADED);
+
+    const test = jest.fn(() => false);
+    const uncached = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { cache: false, rules: [{ id: 'x', code: ErrorCode.TIMEOUT, test }] });
+    const error = new Error('x');
+    uncached.classify(error);
+    uncached.classify(error);
+    expect(test).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not share returned objects between calls', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+    const first = classifier.classify('Request timeout');
+    first.retryable = false;
+
+    expect(classifier.classify('Request timeout').retryable).toBe(true);
+  });
+});
+
+describe('RuleEngine message filter', () => {
+  it('skips filtered rules without changing results', () => {
+    const engine = new RuleEngine([
+      { id: 'named', code: ErrorCode.TIMEOUT, message: /(?<word>slow)\k<word>/ },
+      { id: 'sensitive', code: ErrorCode.RATE_LIMIT, message: /Busy/ },
+      { id: 'unicode', code: ErrorCode.DNS_ERROR, message: /\p{Lu}NS/u },
+    ]);
+    const match = (message: string) => engine.match([{ message, source: message }])?.rule.id;
+
+    expect(match('slowslow')).toBe('named');
+    expect(match('Busy')).toBe('sensitive');
+    expect(match('busy')).toBeUndefined();
+    expect(match('DNS')).toBe('unicode');
+    expect(match('nothing')).toBeUndefined();
+  });
+});
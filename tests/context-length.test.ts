@@ -0,0 +1,92 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { FallbackExecutor } from '../src/fallback-executor';
+import { parseContextLength, recommendContextLengthAction } from '../src/context-length';
+import { AgentAdapter, AgentConfig, DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+describe('parseContextLength', () => {
+  it.each([
+    [
+      "This model's maximum context length is 8192 tokens. However, your messages resulted in 10234 tokens.",
+      { limit: 8192, requested: 10234, overflow: 2042 },
+    ],
+    [
+      "This model's maximum context length is 4,097 tokens, however you requested 5,000 tokens (4000 in your prompt; 1000 for the completion).",
+      { limit: 4097, requested: 5000, overflow: 903 },
+    ],
+    ['prompt is too long: 215000 tokens > 200000 maximum', { limit: 200000, requested: 215000, overflow: 15000 }],
+    [
+      'input length and `max_tokens` exceed context limit: 199000 + 4096 > 200000',
+      { limit: 200000, requested: 203096, overflow: 3096 },
+    ],
+    [
+      'The input token count (1200000) exceeds the maximum number of tokens allowed (1048576).',
+      { limit: 1048576, requested: 1200000, overflow: 151424 },
+    ],
+    ["This model's maximum context length is 128000 tokens.", { limit: 128000 }],
+  ])('parses %s', (message, expected) => {
+    expect(parseContextLength(message)).toEqual(expected);
+  });
+
+  it('returns undefined without numbers', () => {
+    expect(parseContextLength('Input is too long for requested model.')).toBeUndefined();
+  });
+});
+
+describe('context-length recommendations', () => {
+  const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+  const agents: AgentConfig[] = [
+    { name: 'small', provider: 'openai', priority: 1, contextWindow: 8192 },
+    { name: 'medium', provider: 'openai', priority: 2, contextWindow: 16384 },
+    { name: 'large', provider: 'anthropic', priority: 3, contextWindow: 200000 },
+  ];
+  const overflow = classifier.classify(new Error(
+    "This model's maximum context length is 8192 tokens. However, your messages resulted in 20000 tokens.",
+  ));
+
+  it('attaches token counts to the classification', () => {
+    expect(overflow.code).toBe(ErrorCode.CONTEXT_LENGTH_EXCEEDED);
+    expect(overflow.contextLength).toEqual({ limit: 8192, requested: 20000, overflow: 11808 });
+  });
+
+  it('falls back to the first agent that fits', () => {
+    expect(recommendContextLengthAction(overflow, agents, { agentName: 'small' }))
+      .toEqual({ action: 'fallback', agentName: 'large', contextWindow: 200000 });
+  });
+
+  it('recommends truncating when no agent fits or when preferred', () => {
+    expect(recommendContextLengthAction(overflow, agents.slice(0, 2), { agentName: 'small' }))
+      .toEqual({ action: 'truncate', tokens: 11808 });
+    expect(recommendContextLengthAction(overflow, agents, { agentName: 'small', preferTruncate: true }))
+      .toEqual({ action: 'truncate', tokens: 11808 });
+  });
+
+  it("uses the failing agent's window when the provider omits the limit", () => {
+    const error = classifier.classify(new Error('context window exceeded'));
+    const withRequested = { ...error, contextLength: { requested: 9000 } };
+
+    expect(recommendContextLengthAction(withRequested, agents.slice(0, 1), { agentName: 'small' }))
+      .toEqual({ action: 'truncate', tokens: 808 });
+    expect(recommendContextLengthAction(error, agents)).toEqual({ action: 'none' });
+  });
+
+  it('makes FallbackExecutor skip agents that are too small', async () => {
+    const calls: string[] = [];
+    const adapters: AgentAdapter[] = agents.map((agent) => ({
+      name: agent.name,
+      async execute() {
+        calls.push(agent.name);
+        if (agent.name === 'small') {
+          throw new Error("This model's maximum context length is 8192 tokens. However, your messages resulted in 20000 tokens.");
+        }
+        return { success: true, content: 'ok', agentName: agent.name, metadata: { latency: 1, timestamp: 0, retries: 0 } };
+      },
+      async healthCheck() {
+        return true;
+      },
+    }));
+
+    const response = await new FallbackExecutor(agents, adapters).execute({ prompt: 'long' });
+    expect(response.agentName).toBe('large');
+    expect(calls).toEqual(['small', 'large']);
+  });
+});
@@ -0,0 +1,174 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { DEFAULT_RETRY_CONFIG, ErrorClassification, ErrorCode } from '../src/types';
+
+function withFields(message: string, fields: Record<string, unknown>): Error {
+  return Object.assign(new Error(message), fields);
+}
+
+describe('ErrorClassifier', () => {
+  const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+
+  describe('structured extraction', () => {
+    it('uses the HTTP status before the message text', () => {
+      const result = classifier.classify(withFields('Request failed', { status: 429 }));
+      expect(result.code).toBe(ErrorCode.RATE_LIMIT);
+      expect(result.status).toBe(429);
+    });
+
+    it('maps Node system error codes', () => {
+      expect(classifier.classify(withFields('socket hang up', { code: 'ECONNRESET' })).code)
+        .toBe(ErrorCode.CONNECTION_ERROR);
+      expect(classifier.classify(withFields('getaddrinfo failed', { code: 'ENOTFOUND' })).code)
+        .toBe(ErrorCode.DNS_ERROR);
+      expect(classifier.classify(withFields('connect failed', { code: 'ETIMEDOUT' })).code)
+        .toBe(ErrorCode.TIMEOUT);
+    });
+
+    it('reads provider error bodies', () => {
+      const anthropic = withFields('Overloaded', {
+        status: 529,
+        error: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+      });
+      const openai = withFields('You exceeded your current quota', {
+        status: 429,
+        error: { type: 'insufficient_quota', code: 'insufficient_quota' },
+      });
+      const embedded = new Error('400 {"error":{"type":"invalid_request_error","code":"context_length_exceeded"}}');
+
+      expect(classifier.classify(anthropic).code).toBe(ErrorCode.MODEL_OVERLOADED);
+      expect(classifier.classify(openai).code).toBe(ErrorCode.QUOTA_EXCEEDED);
+      expect(classifier.classify(embedded).code).toBe(ErrorCode.CONTEXT_LENGTH_EXCEEDED);
+    });
+
+    it('walks cause and AggregateError chains', () => {
+      const fetchError = new TypeError('fetch failed', {
+        cause: withFields('connect ECONNREFUSED 127.0.0.1:443', { code: 'ECONNREFUSED' }),
+      });
+      const aggregate = new AggregateError([new Error('boom'), withFields('nope', { code: 'EAI_AGAIN' })], 'all failed');
+
+      expect(classifier.classify(fetchError).code).toBe(ErrorCode.CONNECTION_ERROR);
+      expect(classifier.classify(aggregate).code).toBe(ErrorCode.DNS_ERROR);
+      expect(classifier.classify(new TypeError('fetch failed')).code).toBe(ErrorCode.CONNECTION_ERROR);
+    });
+
+    it('treats AbortError as a timeout', () => {
+      const error = new Error('This operation was aborted');
+      error.name = 'AbortError';
+      expect(classifier.classify(error).code).toBe(ErrorCode.TIMEOUT);
+    });
+  });
+
+  describe('rules', () => {
+    it('classifies strings and errors the same way', () => {
+      expect(classifier.classify('403 Forbidden').code).toBe(ErrorCode.PERMISSION_DENIED);
+      expect(classifier.classify(new Error('403 Forbidden')).code).toBe(ErrorCode.PERMISSION_DENIED);
+      expect(classifier.classify('something odd').code).toBe(ErrorCode.UNKNOWN_ERROR);
+      expect(classifier.classify(new Error('something odd')).code).toBe(ErrorCode.UNKNOWN_ERROR);
+    });
+
+    it('accepts error codes directly', () => {
+      expect(classifier.classify(ErrorCode.RATE_LIMIT).code).toBe(ErrorCode.RATE_LIMIT);
+    });
+
+    it('does not read context length errors as quota errors', () => {
+      expect(classifier.classify('context length exceeded').code).toBe(ErrorCode.CONTEXT_LENGTH_EXCEEDED);
+    });
+
+    it('lets instances register, override and remove rules', () => {
+      const custom = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+      custom.addRule({ id: 'vendor:busy', code: ErrorCode.MODEL_OVERLOADED, message: /engine busy/i, priority: 500 });
+      custom.addRule({ id: 'status:not-found', code: ErrorCode.INTERNAL_ERROR, status: 404, priority: 300 });
+      custom.removeRule('message:timeout');
+
+      expect(custom.classify('Engine busy, timeout').code).toBe(ErrorCode.MODEL_OVERLOADED);
+      expect(custom.classify(withFields('Not found', { status: 404 })).code).toBe(ErrorCode.INTERNAL_ERROR);
+      expect(custom.classify('request timeout').code).toBe(ErrorCode.UNKNOWN_ERROR);
+      expect(classifier.classify('request timeout').code).toBe(ErrorCode.TIMEOUT);
+    });
+
+    it('orders rules by priority, then registration', () => {
+      const custom = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { rules: [] });
+      custom.addRule({ id: 'a', code: ErrorCode.TIMEOUT, message: /x/ });
+      custom.addRule({ id: 'b', code: ErrorCode.RATE_LIMIT, message: /x/ });
+      custom.addRule({ id: 'c', code: ErrorCode.DNS_ERROR, message: /x/, priority: 1 });
+
+      expect(custom.getRules().map((rule) => rule.id)).toEqual(['c', 'a', 'b']);
+    });
+  });
+
+  describe('custom codes', () => {
+    type AppCode = ErrorCode | 'TOOL_CALL_FAILED' | 'GUARDRAIL_REJECTED';
+    type AppClass = ErrorClassification | 'tool' | 'guardrail';
+
+    const custom = new ErrorClassifier<AppCode, AppClass>(DEFAULT_RETRY_CONFIG, {
+      codes: {
+        TOOL_CALL_FAILED: { classification: 'tool', retryable: true, shouldFallback: false },
+        GUARDRAIL_REJECTED: { classification: 'guardrail', retryable: false, shouldFallback: true },
+      },
+    });
+    custom.addRule({ id: 'app:tool', code: 'TOOL_CALL_FAILED', name: 'ToolCallError' });
+
+    it('classifies registered codes passed directly', () => {
+      const result = custom.classify('GUARDRAIL_REJECTED');
+      const classification: AppClass = result.classification;
+      expect(classification).toBe('guardrail');
+      expect(result.shouldFallback).toBe(true);
+    });
+
+    it('classifies custom codes produced by rules', () => {
+      const error = new Error('tool exploded');
+      error.name = 'ToolCallError';
+      expect(custom.classify(error)).toMatchObject({ code: 'TOOL_CALL_FAILED', classification: 'tool', retryable: true });
+    });
+
+    it('supports registering codes after construction', () => {
+      custom.registerCode('TOOL_CALL_FAILED', { classification: 'tool', retryable: false, shouldFallback: true });
+      expect(custom.isRetryable('TOOL_CALL_FAILED')).toBe(false);
+      expect(custom.classify(ErrorCode.TIMEOUT).classification).toBe('timeout');
+    });
+  });
+});
+
+describe('ErrorClassifier explain mode', () => {
+  const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+
+  it('omits the trace unless asked', () => {
+    expect(classifier.classify(new Error('rate limit hit')).trace).toBeUndefined();
+  });
+
+  it('records the matched rule, keyword and competing candidates', () => {
+    const { code, trace } = classifier.classify(new Error('context length exceeded'), { explain: true });
+
+    expect(code).toBe(ErrorCode.CONTEXT_LENGTH_EXCEEDED);
+    expect(trace?.source).toBe('rules');
+    expect(trace?.matched).toMatchObject({ ruleId: 'message:context-length', matchers: ['message'], keyword: 'context length' });
+    expect(trace?.candidates.map((candidate) => candidate.ruleId)).toEqual(['message:context-length', 'message:quota']);
+    expect(trace?.confidence).toBeLessThan(0.6);
+  });
+
+  it('is more confident about structured matches', () => {
+    const status = classifier.classify(withFields('Request failed', { status: 429 }), { explain: true });
+    const direct = classifier.classify(ErrorCode.TIMEOUT, { explain: true });
+    const unknown = classifier.classify(new Error('something odd'), { explain: true });
+
+    expect(status.trace?.confidence).toBe(0.85);
+    expect(direct.trace).toEqual({ confidence: 1, source: 'code', candidates: [] });
+    expect(unknown.trace).toEqual({ confidence: 0, source: 'fallback', candidates: [] });
+  });
+
+  it('puts provider rules ahead of the general rules', () => {
+    const error = withFields('Too many requests', { name: 'ThrottlingException', $metadata: { httpStatusCode: 429 } });
+    const { trace } = classifier.classify(error, { provider: 'bedrock', explain: true });
+
+    expect(trace?.matched).toMatchObject({ ruleId: 'bedrock:throttling', source: 'provider' });
+    expect(trace?.candidates.some((candidate) => candidate.source === 'rules')).toBe(true);
+  });
+
+  it('describes the decision path', () => {
+    const text = classifier.explain(new Error('context length exceeded'));
+
+    expect(text).toContain('CONTEXT_LENGTH_EXCEEDED (model, not retryable, fallback)');
+    expect(text).toContain('matched message:context-length -> CONTEXT_LENGTH_EXCEEDED');
+    expect(text).toContain('- message:quota -> QUOTA_EXCEEDED');
+  });
+});
@@ -0,0 +1,83 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { TypedEventEmitter } from '../src/events';
+import { FallbackExecutor } from '../src/fallback-executor';
+import { AgentAdapter, DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+describe('TypedEventEmitter', () => {
+  it('supports on, off and once', () => {
+    const events = new TypedEventEmitter();
+    const listener = jest.fn();
+    const onceListener = jest.fn();
+    const payload = { agentName: 'a', successCount: 1 };
+
+    events.on('circuit:closed', listener).once('circuit:closed', onceListener);
+    events.emit('circuit:closed', payload);
+    events.emit('circuit:closed', payload);
+    events.off('circuit:closed', listener);
+    events.emit('circuit:closed', payload);
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(onceListener).toHaveBeenCalledTimes(1);
+    expect(events.listenerCount('circuit:closed')).toBe(0);
+  });
+
+  it('removes once listeners by their original reference', () => {
+    const events = new TypedEventEmitter();
+    const listener = jest.fn();
+    events.once('circuit:opened', listener);
+    events.off('circuit:opened', listener);
+    events.emit('circuit:opened', { agentName: 'a', failureCount: 1, threshold: 1 });
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
+
+describe('event publishing', () => {
+  it('emits error:classified from the classifier', () => {
+    const events = new TypedEventEmitter();
+    const listener = jest.fn();
+    events.on('error:classified', listener);
+
+    new ErrorClassifier(DEFAULT_RETRY_CONFIG, { events }).classify('rate limit exceeded');
+
+    expect(listener).toHaveBeenCalledWith({
+      error: ErrorCode.RATE_LIMIT,
+      classification: 'rate_limit',
+      retryable: true,
+      shouldFallback: true,
+    });
+  });
+
+  it('emits retry and fallback events from the executor', async () => {
+    const events = new TypedEventEmitter();
+    const seen: string[] = [];
+    events
+      .on('retry:attempt', (e) => seen.push(`attempt:${e.agentName}:${e.attemptNumber}`))
+      .on('retry:failure', (e) => seen.push(`failure:${e.agentName}:${e.finalError}`))
+      .on('fallback:triggered', (e) => seen.push(`fallback:${e.fromAgent}->${e.toAgent}`));
+
+    const failing: AgentAdapter = {
+      name: 'primary',
+      execute: async () => { throw new Error('Service unavailable'); },
+      healthCheck: async () => true,
+    };
+    const working: AgentAdapter = {
+      name: 'secondary',
+      execute: async () => ({ success: true, content: 'ok', agentName: 'secondary', metadata: { latency: 0, timestamp: 0, retries: 0 } }),
+      healthCheck: async () => true,
+    };
+    const executor = new FallbackExecutor(
+      [{ name: 'primary', provider: 'a', priority: 1 }, { name: 'secondary', provider: 'b', priority: 2 }],
+      [failing, working],
+      { ...DEFAULT_RETRY_CONFIG, maxRetries: 1, jitter: false },
+      { events, sleep: () => Promise.resolve() },
+    );
+
+    await executor.execute({ prompt: 'hi' });
+
+    expect(seen).toEqual([
+      'attempt:primary:1',
+      'failure:primary:SERVICE_UNAVAILABLE',
+      'fallback:primary->secondary',
+    ]);
+  });
+});
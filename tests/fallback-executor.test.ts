@@ -0,0 +1,139 @@
+import { FallbackExecutor } from '../src/fallback-executor';
+import { AgentAdapter, AgentResponse, DEFAULT_RETRY_CONFIG, ErrorCode, RetryConfig } from '../src/types';
+
+const config: RetryConfig = { ...DEFAULT_RETRY_CONFIG, maxRetries: 2, baseDelay: 10, jitter: false };
+const sleep = () => Promise.resolve();
+
+function ok(agentName: string): AgentResponse {
+  return { success: true, content: 'hello', agentName, metadata: { latency: 1, timestamp: 0, retries: 0 } };
+}
+
+function adapter(name: string, results: Array<AgentResponse | Error>): AgentAdapter & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    async execute() {
+      const result = results[Math.min(this.calls++, results.length - 1)];
+      if (result instanceof Error) throw result;
+      return result;
+    },
+    async healthCheck() {
+      return true;
+    },
+  };
+}
+
+describe('FallbackExecutor', () => {
+  const chain = [
+    { name: 'secondary', provider: 'anthropic', priority: 2 },
+    { name: 'primary', provider: 'openai', priority: 1 },
+  ];
+
+  it('retries retryable errors on the same agent', async () => {
+    const primary = adapter('primary', [new Error('Request timeout'), ok('primary')]);
+    const executor = new FallbackExecutor(chain, [primary, adapter('secondary', [ok('secondary')])], config, { sleep });
+
+    const response = await executor.execute({ prompt: 'hi' });
+
+    expect(response).toMatchObject({ success: true, agentName: 'primary' });
+    expect(response.metadata.retries).toBe(1);
+    expect(primary.calls).toBe(2);
+  });
+
+  it('falls back to the next agent by priority when retries run out', async () => {
+    const onAttempt = jest.fn();
+    const primary = adapter('primary', [new Error('Request timeout')]);
+    const executor = new FallbackExecutor(chain, [primary, adapter('secondary', [ok('secondary')])], config, { sleep });
+
+    const response = await executor.execute({ prompt: 'hi' }, { onAttempt });
+
+    expect(response.agentName).toBe('secondary');
+    expect(primary.calls).toBe(3);
+    expect(onAttempt.mock.calls.map(([, agent]) => agent)).toEqual(['primary', 'primary', 'primary', 'secondary']);
+  });
+
+  it('stops retrying an agent once its circuit opens', async () => {
+    const primary = adapter('primary', [new Error('Request timeout')]);
+    const executor = new FallbackExecutor(
+      chain,
+      [primary, adapter('secondary', [ok('secondary')])],
+      { ...config, maxRetries: 3, circuitBreaker: { failureThreshold: 1, recoveryTimeout: 60000, halfOpenAttempts: 1 } },
+      { sleep },
+    );
+    const onAttempt = jest.fn();
+
+    const response = await executor.execute({ prompt: 'hi' }, { onAttempt });
+
+    expect(response.agentName).toBe('secondary');
+    expect(onAttempt.mock.calls.map(([, agent]) => agent)).toEqual(['primary', 'secondary']);
+  });
+
+  it('does not fall back when the circuit opens on an error that forbids it', async () => {
+    const internal = { ...ok('primary'), success: false, content: '', error: 'boom', errorCode: ErrorCode.INTERNAL_ERROR };
+    const secondary = adapter('secondary', [ok('secondary')]);
+    const executor = new FallbackExecutor(
+      chain,
+      [adapter('primary', [internal]), secondary],
+      { ...config, circuitBreaker: { failureThreshold: 1, recoveryTimeout: 60000, halfOpenAttempts: 1 } },
+      { sleep },
+    );
+
+    const response = await executor.execute({ prompt: 'hi' });
+
+    expect(response).toMatchObject({ success: false, errorCode: ErrorCode.INTERNAL_ERROR, agentName: 'primary' });
+    expect(secondary.calls).toBe(0);
+  });
+
+  it('stops without fallback when the error does not allow it', async () => {
+    const denied = { ...ok('primary'), success: false, content: '', error: 'denied', errorCode: ErrorCode.PERMISSION_DENIED };
+    const secondary = adapter('secondary', [ok('secondary')]);
+    const executor = new FallbackExecutor(chain, [adapter('primary', [denied]), secondary], config, { sleep });
+
+    const response = await executor.execute({ prompt: 'hi' });
+
+    expect(response).toMatchObject({ success: false, errorCode: ErrorCode.PERMISSION_DENIED, agentName: 'primary' });
+    expect(secondary.calls).toBe(0);
+  });
+
+  it('times out slow agents', async () => {
+    const slow: AgentAdapter = {
+      name: 'primary',
+      execute: () => new Promise(() => undefined),
+      healthCheck: async () => true,
+    };
+    const executor = new FallbackExecutor(
+      [chain[1]],
+      [slow],
+      { ...config, maxRetries: 0, timeout: { agent: 5, total: 1000 } },
+      { sleep },
+    );
+
+    const response = await executor.execute({ prompt: 'hi' });
+    expect(response).toMatchObject({ success: false, errorCode: ErrorCode.TIMEOUT });
+  });
+
+  it('rejects when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort(new Error('cancelled'));
+    const executor = new FallbackExecutor(chain, [adapter('primary', [ok('primary')]), adapter('secondary', [])], config);
+
+    await expect(executor.execute({ prompt: 'hi' }, { abortSignal: controller.signal })).rejects.toThrow('cancelled');
+  });
+
+  it('applies per-agent overrides', async () => {
+    const primary = adapter('primary', [new Error('Request timeout')]);
+    const secondary = adapter('secondary', [ok('secondary')]);
+    const policy = { overrides: { agents: { primary: { codes: { TIMEOUT: { retryable: false, shouldFallback: false } } } } } };
+    const executor = new FallbackExecutor(chain, [primary, secondary], { ...config, policy }, { sleep });
+
+    const response = await executor.execute({ prompt: 'hi' });
+
+    expect(response).toMatchObject({ success: false, errorCode: ErrorCode.TIMEOUT });
+    expect(primary.calls).toBe(1);
+    expect(secondary.calls).toBe(0);
+  });
+
+  it('requires an adapter for every agent', () => {
+    expect(() => new FallbackExecutor(chain, [adapter('primary', [])])).toThrow('No adapter registered for agent "secondary"');
+  });
+});
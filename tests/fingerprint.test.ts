@@ -0,0 +1,89 @@
+import { ErrorAggregator } from '../src/error-aggregator';
+import { ErrorClassifier } from '../src/error-classifier';
+import { fingerprintError, normalizeMessage } from '../src/fingerprint';
+import { DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+describe('normalizeMessage', () => {
+  it('replaces volatile tokens with placeholders', () => {
+    expect(normalizeMessage(
+      'connect ECONNREFUSED 10.0.0.12:443 (request id: 5f3a9c0d) at 2024-05-01T10:00:00Z',
+    )).toBe('connect ECONNREFUSED <ip> (request id: <id>) at <timestamp>');
+    expect(normalizeMessage('GET https://api.openai.com/v1/chat failed for req_8fk2Lm9x after 30000 ms'))
+      .toBe('GET <url> failed for <id> after <n> ms');
+    expect(normalizeMessage('trace 0b9f6a1e-2c4d-4e8f-9a1b-3c5d7e9f1a2b on eu-west-1.bedrock.aws.internal'))
+      .toBe('trace <uuid> on <host>');
+  });
+});
+
+describe('fingerprintError', () => {
+  const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { cache: false });
+
+  it('is the same for errors differing only in volatile tokens', () => {
+    const a = classifier.classify(new Error('Connection reset by api-1.example.com (request_id=abc-123)'));
+    const b = classifier.classify(new Error('Connection reset by api-7.example.com (request_id=def-456)'));
+
+    expect(a.fingerprint).toMatch(/^[0-9a-f]{16}$/);
+    expect(a.fingerprint).toBe(b.fingerprint);
+    expect(a.fingerprint).toBe(fingerprintError(a));
+  });
+
+  it('differs by code and message', () => {
+    const timeout = classifier.classify(new Error('Request timeout'));
+
+    expect(fingerprintError({ code: ErrorCode.CONNECTION_ERROR, message: 'Request timeout' })).not.toBe(timeout.fingerprint);
+    expect(classifier.classify(new Error('Gateway timeout')).fingerprint).not.toBe(timeout.fingerprint);
+  });
+});
+
+describe('ErrorAggregator', () => {
+  const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+
+  it('groups errors by fingerprint with counts, first and last seen', () => {
+    let now = 1000;
+    const aggregator = new ErrorAggregator({ now: () => now });
+    for (let i = 0; i < 3; i++) {
+      aggregator.record(classifier.classify(new Error(`Connection refused (request id: ${i})`)), { agent: 'primary' });
+      now += 10;
+    }
+    aggregator.record(classifier.classify(new Error('Request timeout')), { agent: 'secondary' });
+
+    const [connection, timeout] = aggregator.getGroups();
+    expect(connection).toMatchObject({
+      code: ErrorCode.CONNECTION_ERROR,
+      normalizedMessage: 'Connection refused (request id: <id>)',
+      sampleMessage: 'Connection refused (request id: 0)',
+      count: 3,
+      firstSeen: 1000,
+      lastSeen: 1020,
+      labels: { agent: { primary: 3 } },
+    });
+    expect(timeout).toMatchObject({ code: ErrorCode.TIMEOUT, count: 1 });
+  });
+
+  it('closes groups that stay quiet for the window', () => {
+    let now = 0;
+    const aggregator = new ErrorAggregator({ windowMs: 100, now: () => now });
+    const error = classifier.classify('Service unavailable');
+
+    aggregator.record(error);
+    now = 90;
+    aggregator.record(error);
+    now = 180;
+    expect(aggregator.getGroup(error.fingerprint!)?.count).toBe(2);
+
+    now = 191;
+    expect(aggregator.getGroups()).toEqual([]);
+    expect(aggregator.record(error)).toMatchObject({ count: 1, firstSeen: 191 });
+  });
+
+  it('drops the least recently seen group beyond maxGroups', () => {
+    let now = 0;
+    const aggregator = new ErrorAggregator({ maxGroups: 2, now: () => now++ });
+    const first = aggregator.record(classifier.classify('Request timeout'));
+    aggregator.record(classifier.classify('Rate limit exceeded'));
+    aggregator.record(classifier.classify('Model overloaded'));
+
+    expect(aggregator.getGroup(first.fingerprint)).toBeUndefined();
+    expect(aggregator.getGroups()).toHaveLength(2);
+  });
+});
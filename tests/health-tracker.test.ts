@@ -0,0 +1,104 @@
+import { CircuitBreaker } from '../src/circuit-breaker';
+import { FallbackExecutor } from '../src/fallback-executor';
+import { HealthTracker } from '../src/health-tracker';
+import { AgentAdapter, AgentResponse, CircuitState, DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+function response(agentName: string, latency: number): AgentResponse {
+  return { success: true, content: 'ok', agentName, metadata: { latency, timestamp: 0, retries: 0 } };
+}
+
+const timeout = { code: ErrorCode.TIMEOUT, classification: 'timeout' as const, retryable: true, shouldFallback: true, message: 'timeout' };
+
+describe('HealthTracker', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1000;
+  });
+
+  it('aggregates outcomes into agent and system status', () => {
+    const tracker = new HealthTracker({ now: () => now });
+    tracker.recordSuccess('primary', response('primary', 100));
+    tracker.recordSuccess('primary', response('primary', 300));
+    tracker.recordFailure('secondary', timeout, 50);
+    tracker.recordRequest(true);
+    now = 5000;
+
+    const status = tracker.getStatus();
+
+    expect(status).toMatchObject({
+      overallHealthy: true,
+      currentAgent: 'primary',
+      totalRequests: 1,
+      successfulRequests: 1,
+      failedRequests: 0,
+      totalAttempts: 3,
+      failedAttempts: 1,
+      averageLatency: 200,
+      uptime: 4000,
+    });
+    expect(tracker.getAgentStatus('primary')).toMatchObject({ successCount: 2, failureCount: 0, averageLatency: 200, healthy: true });
+    expect(tracker.getAgentStatus('secondary')).toMatchObject({ failureCount: 1, lastError: ErrorCode.TIMEOUT, healthy: false });
+  });
+
+  it('keeps a rolling window per agent', () => {
+    const tracker = new HealthTracker({ windowSize: 2 });
+    tracker.recordFailure('primary', timeout);
+    tracker.recordSuccess('primary', response('primary', 10));
+    tracker.recordSuccess('primary', response('primary', 10));
+
+    expect(tracker.getAgentStatus('primary')).toMatchObject({ successCount: 2, failureCount: 0 });
+    expect(tracker.getStatus().failedAttempts).toBe(1);
+  });
+
+  it('counts requests and attempts separately from the executor, with measured latency', async () => {
+    const tracker = new HealthTracker({ now: () => now });
+    let calls = 0;
+    const primary: AgentAdapter = {
+      name: 'primary',
+      execute: async () => {
+        now += 40;
+        if (++calls < 3) throw new Error('Request timeout');
+        // Adapters may report a latency that differs from the attempt time
+        return response('primary', 999);
+      },
+      healthCheck: async () => true,
+    };
+    const executor = new FallbackExecutor(
+      [{ name: 'primary', provider: 'openai', priority: 1 }],
+      [primary],
+      { ...DEFAULT_RETRY_CONFIG, jitter: false },
+      { healthTracker: tracker, now: () => now, sleep: () => Promise.resolve() },
+    );
+
+    expect((await executor.execute({ prompt: 'hi' })).success).toBe(true);
+    expect(tracker.getStatus()).toMatchObject({
+      totalRequests: 1,
+      successfulRequests: 1,
+      failedRequests: 0,
+      totalAttempts: 3,
+      failedAttempts: 2,
+      averageLatency: 40,
+    });
+  });
+
+  it('reflects circuit state and health checks', async () => {
+    const breaker = new CircuitBreaker('primary', { failureThreshold: 1, recoveryTimeout: 1000, halfOpenAttempts: 1 });
+    const adapters: AgentAdapter[] = [
+      { name: 'primary', execute: jest.fn(), healthCheck: async () => true },
+      { name: 'secondary', execute: jest.fn(), healthCheck: async () => { throw new Error('down'); } },
+    ];
+    const tracker = new HealthTracker({ adapters });
+    tracker.registerAgent('primary', breaker);
+    breaker.recordFailure(timeout);
+
+    await tracker.runHealthChecks();
+    const status = tracker.getStatus();
+
+    expect(status.agents.map((agent) => [agent.name, agent.healthy, agent.circuitState])).toEqual([
+      ['primary', false, CircuitState.OPEN],
+      ['secondary', false, CircuitState.CLOSED],
+    ]);
+    expect(status.overallHealthy).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ErrorClassifier } from '../src/error-classifier';
+import {
+  LearnedClassifier,
+  loadLearnedModel,
+  parseTrainingData,
+  saveLearnedModel,
+  tokenize,
+  trainFromFile,
+} from '../src/learned-classifier';
+import { deserializeError, serializeError } from '../src/serialization';
+import { DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+const corpus = join(__dirname, 'fixtures', 'learned', 'errors.jsonl');
+
+describe('tokenize', () => {
+  it('emits unigrams and bigrams over normalized, lowercased words', () => {
+    expect(tokenize('Socket hang up after 30s')).toEqual([
+      'socket', 'hang', 'up', 'after', '<n>', 's',
+      'socket hang', 'hang up', 'up after', 'after <n>', '<n> s',
+    ]);
+  });
+});
+
+describe('LearnedClassifier', () => {
+  let model: LearnedClassifier;
+
+  beforeAll(async () => {
+    model = await trainFromFile(corpus);
+  });
+
+  it('predicts unseen variants of the training messages', () => {
+    expect(model.predict('Error: socket hang up (code ECONNRESET)')?.code).toBe(ErrorCode.CONNECTION_ERROR);
+    expect(model.predict('The engine is at capacity right now')?.code).toBe(ErrorCode.MODEL_OVERLOADED);
+    expect(model.predict('You have run out of API credits')?.code).toBe(ErrorCode.QUOTA_EXCEEDED);
+    expect(model.predict('Unexpected end of JSON input at position 512')?.code).toBe(ErrorCode.PARSE_ERROR);
+    expect(model.predict('502 Bad gateway')?.code).toBe(ErrorCode.SERVICE_UNAVAILABLE);
+  });
+
+  it('returns posteriors summing to one, most likely first', () => {
+    const scores = model.score('Your prompt is too long');
+    expect(scores[0].code).toBe(ErrorCode.CONTEXT_LENGTH_EXCEEDED);
+    expect(scores.reduce((sum, { confidence }) => sum + confidence, 0)).toBeCloseTo(1);
+    for (let i = 1; i < scores.length; i++) {
+      expect(scores[i - 1].confidence).toBeGreaterThanOrEqual(scores[i].confidence);
+    }
+  });
+
+  it('declines messages without known tokens or below minConfidence', () => {
+    expect(model.predict('zzz qqq')).toBeUndefined();
+    expect(model.score('')).toEqual([]);
+    const strict = LearnedClassifier.fromJSON(model.toJSON(), { minConfidence: 0.999999 });
+    expect(strict.predict('the model')).toBeUndefined();
+  });
+
+  it('is not confused by tokens named like Object.prototype members', () => {
+    const trained = LearnedClassifier.train([
+      { message: 'constructor toString failed', code: ErrorCode.PARSE_ERROR },
+      { message: 'socket hang up', code: ErrorCode.CONNECTION_ERROR },
+    ]);
+    expect(trained.predict('constructor failed')?.code).toBe(ErrorCode.PARSE_ERROR);
+    expect(trained.predict('hasOwnProperty')).toBeUndefined();
+  });
+
+  it('round-trips through JSON and model files', async () => {
+    const restored = LearnedClassifier.fromJSON(JSON.parse(JSON.stringify(model)));
+    expect(restored.score('Bad gateway')).toEqual(model.score('Bad gateway'));
+
+    const dir = await mkdtemp(join(tmpdir(), 'learned-'));
+    try {
+      const path = join(dir, 'model.json');
+      await saveLearnedModel(path, model);
+      const loaded = await loadLearnedModel(path);
+      expect(loaded.toJSON()).toEqual(model.toJSON());
+
+      await writeFile(path, JSON.stringify({ ...model.toJSON(), version: 2 }), 'utf8');
+      await expect(loadLearnedModel(path)).rejects.toThrow(`${path}: Unsupported learned model version: 2`);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects malformed models', () => {
+    expect(() => LearnedClassifier.fromJSON(null)).toThrow(TypeError);
+    expect(() => LearnedClassifier.fromJSON({ version: 1, alpha: 1, minConfidence: 0.7, labels: [] }))
+      .toThrow('labels must be an object');
+    expect(() => LearnedClassifier.fromJSON({
+      version: 1, alpha: 1, minConfidence: 0.7, labels: { PARSE_ERROR: { documents: 1, tokens: 1, counts: { a: 'x' } } },
+    })).toThrow('labels.PARSE_ERROR is malformed');
+  });
+});
+
+describe('parseTrainingData', () => {
+  it('skips blank lines and reports malformed lines by number', () => {
+    expect(parseTrainingData('{"message":"a","code":"X"}\n\n{"message":"b","code":"Y"}\n')).toEqual([
+      { message: 'a', code: 'X' },
+      { message: 'b', code: 'Y' },
+    ]);
+    expect(() => parseTrainingData('{"message":"a","code":"X"}\n{oops')).toThrow(/^line 2: /);
+    expect(() => parseTrainingData('\n{"message":"a"}')).toThrow('line 2: expected an object with string "message" and "code"');
+  });
+});
+
+describe('ErrorClassifier with a learned classifier', () => {
+  let model: LearnedClassifier;
+
+  beforeAll(async () => {
+    model = await trainFromFile(corpus);
+  });
+
+  it('predicts only when no rule matches, and reports its confidence', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { learned: model });
+
+    const learned = classifier.classify(new Error('socket hang up'));
+    expect(learned.code).toBe(ErrorCode.CONNECTION_ERROR);
+    expect(learned.classification).toBe('network');
+    expect(learned.confidence).toBeGreaterThanOrEqual(0.7);
+
+    const ruled = classifier.classify(new Error('Request timed out'));
+    expect(ruled.code).toBe(ErrorCode.TIMEOUT);
+    expect(ruled.confidence).toBeUndefined();
+  });
+
+  it('stays UNKNOWN_ERROR when the model is unsure', () => {
+    expect(model.score('the request failed')[0].confidence).toBeLessThan(0.7);
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { learned: model });
+    const result = classifier.classify(new Error('the request failed'));
+    expect(result.code).toBe(ErrorCode.UNKNOWN_ERROR);
+    expect(result.confidence).toBeUndefined();
+  });
+
+  it('ignores predicted codes that are not registered', () => {
+    const trained = LearnedClassifier.train<string>([{ message: 'flux capacitor drained', code: 'FLUX_ERROR' }]);
+    const classifier = new ErrorClassifier<string>(DEFAULT_RETRY_CONFIG, { learned: trained });
+    expect(classifier.classify(new Error('flux capacitor drained')).code).toBe(ErrorCode.UNKNOWN_ERROR);
+  });
+
+  it('explains learned classifications', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { learned: model, explain: true });
+    const result = classifier.classify(new Error('Bad gateway'));
+    expect(result.trace).toMatchObject({ source: 'learned', candidates: [] });
+    expect(classifier.explain(new Error('Bad gateway'))).toContain('predicted by the learned classifier');
+  });
+
+  it('applies a replaced model to cached messages', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+    expect(classifier.classify('Bad gateway').code).toBe(ErrorCode.UNKNOWN_ERROR);
+    classifier.setLearnedClassifier(model);
+    expect(classifier.classify('Bad gateway').code).toBe(ErrorCode.SERVICE_UNAVAILABLE);
+  });
+
+  it('carries the confidence through serialization', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { learned: model });
+    const result = classifier.classify(new Error('socket hang up'));
+    expect(deserializeError(serializeError(result)).classified.confidence).toBe(result.confidence);
+  });
+});
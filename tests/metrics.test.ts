@@ -0,0 +1,166 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { TypedEventEmitter } from '../src/events';
+import { FallbackExecutor } from '../src/fallback-executor';
+import { MetricsCollector, attachMetrics, toOpenTelemetry, toPrometheus } from '../src/metrics';
+import { AgentAdapter, AgentResponse, DEFAULT_RETRY_CONFIG, ErrorCode, SystemEvents } from '../src/types';
+
+const config = { ...DEFAULT_RETRY_CONFIG, maxRetries: 1, baseDelay: 100, jitter: false as const };
+
+function adapter(name: string, results: Array<AgentResponse | Error>): AgentAdapter {
+  let calls = 0;
+  return {
+    name,
+    async execute() {
+      const result = results[Math.min(calls++, results.length - 1)];
+      if (result instanceof Error) throw result;
+      return result;
+    },
+    async healthCheck() {
+      return true;
+    },
+  };
+}
+
+describe('MetricsCollector', () => {
+  it('counts series independently of label order', () => {
+    const collector = new MetricsCollector();
+    collector.increment('hits', { a: '1', b: '2' });
+    collector.increment('hits', { b: '2', a: '1' }, 2);
+
+    expect(collector.getCounter('hits', { a: '1', b: '2' })).toBe(3);
+    expect(collector.getCounter('hits', { a: '2', b: '2' })).toBe(0);
+  });
+
+  it('places observations in buckets', () => {
+    const collector = new MetricsCollector({
+      definitions: [{ name: 'delay', type: 'histogram', help: 'Delay', buckets: [10, 100] }],
+    });
+    for (const value of [5, 10, 50, 500]) collector.observe('delay', {}, value);
+
+    const [metric] = collector.getSnapshot().metrics;
+    expect(metric).toMatchObject({
+      type: 'histogram',
+      buckets: [10, 100],
+      samples: [{ labels: {}, bucketCounts: [2, 1, 1], sum: 565, count: 4 }],
+    });
+  });
+
+  it('rejects using a metric as the wrong type', () => {
+    const collector = new MetricsCollector();
+    expect(() => collector.observe('errors_classified_total', {}, 1)).toThrow('is a counter');
+  });
+});
+
+describe('attachMetrics', () => {
+  it('counts classifications with agent and provider labels', () => {
+    const events = new TypedEventEmitter<SystemEvents>();
+    const collector = new MetricsCollector();
+    const detach = attachMetrics(events, collector);
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { events });
+
+    classifier.classify(new Error('Rate limit exceeded'), { provider: 'openai', agent: 'primary' });
+    classifier.classify(new Error('Rate limit exceeded'), { provider: 'openai', agent: 'primary' });
+    detach();
+    classifier.classify(new Error('Rate limit exceeded'), { provider: 'openai', agent: 'primary' });
+
+    expect(collector.getCounter('errors_classified_total', {
+      code: ErrorCode.RATE_LIMIT,
+      classification: 'rate_limit',
+      retryable: 'true',
+      should_fallback: 'true',
+      agent: 'primary',
+      provider: 'openai',
+    })).toBe(2);
+  });
+
+  it('records retry delays, fallbacks and request latency from the executor', async () => {
+    let now = 0;
+    const events = new TypedEventEmitter<SystemEvents>();
+    const collector = new MetricsCollector({ now: () => now });
+    attachMetrics(events, collector);
+    const chain = [
+      { name: 'primary', provider: 'openai', priority: 1 },
+      { name: 'secondary', provider: 'anthropic', priority: 2 },
+    ];
+    const ok = { success: true, content: 'hi', agentName: 'secondary', metadata: { latency: 0, timestamp: 0, retries: 0 } };
+    const executor = new FallbackExecutor(
+      chain,
+      [adapter('primary', [new Error('Request timeout')]), adapter('secondary', [ok])],
+      config,
+      { events, now: () => now, sleep: async (ms) => { now += ms; } },
+    );
+
+    await executor.execute({ prompt: 'hi' });
+
+    expect(collector.getCounter('fallbacks_total', { from: 'primary', to: 'secondary', code: ErrorCode.TIMEOUT })).toBe(1);
+    const metrics = collector.getSnapshot().metrics;
+    expect(metrics.find((metric) => metric.name === 'retry_delay_ms')?.samples).toEqual([
+      expect.objectContaining({ labels: { agent: 'primary', code: ErrorCode.TIMEOUT }, sum: 100, count: 1 }),
+    ]);
+    expect(metrics.find((metric) => metric.name === 'request_latency_ms')?.samples).toEqual([
+      expect.objectContaining({ labels: { agent: 'secondary', success: 'true' }, sum: 100, count: 1 }),
+    ]);
+  });
+});
+
+describe('exporters', () => {
+  function snapshot() {
+    let now = 1000;
+    const collector = new MetricsCollector({
+      definitions: [
+        { name: 'errors_total', type: 'counter', help: 'Errors' },
+        { name: 'delay_ms', type: 'histogram', help: 'Delay', unit: 'ms', buckets: [10, 100] },
+      ],
+      now: () => now,
+    });
+    collector.increment('errors_total', { code: 'say "hi"' });
+    collector.observe('delay_ms', { agent: 'a' }, 5);
+    collector.observe('delay_ms', { agent: 'a' }, 50);
+    collector.observe('delay_ms', { agent: 'a' }, 500);
+    now = 2000;
+    return collector.getSnapshot();
+  }
+
+  it('renders the Prometheus text format with cumulative buckets', () => {
+    expect(toPrometheus(snapshot(), { prefix: 'llm_' })).toBe([
+      '# HELP llm_errors_total Errors',
+      '# TYPE llm_errors_total counter',
+      'llm_errors_total{code="say \\"hi\\""} 1',
+      '# HELP llm_delay_ms Delay',
+      '# TYPE llm_delay_ms histogram',
+      'llm_delay_ms_bucket{agent="a",le="10"} 1',
+      'llm_delay_ms_bucket{agent="a",le="100"} 2',
+      'llm_delay_ms_bucket{agent="a",le="+Inf"} 3',
+      'llm_delay_ms_sum{agent="a"} 555',
+      'llm_delay_ms_count{agent="a"} 3',
+      '',
+    ].join('\n'));
+  });
+
+  it('converts to OpenTelemetry data points', () => {
+    const [counter, histogram] = toOpenTelemetry(snapshot());
+
+    expect(counter).toEqual({
+      name: 'errors_total',
+      description: 'Errors',
+      sum: {
+        dataPoints: [{
+          attributes: [{ key: 'code', value: { stringValue: 'say "hi"' } }],
+          startTimeUnixNano: '1000000000',
+          timeUnixNano: '2000000000',
+          asDouble: 1,
+        }],
+        aggregationTemporality: 2,
+        isMonotonic: true,
+      },
+    });
+    expect(histogram).toMatchObject({
+      name: 'delay_ms',
+      unit: 'ms',
+      histogram: {
+        dataPoints: [{ count: 3, sum: 555, bucketCounts: [1, 1, 1], explicitBounds: [10, 100] }],
+        aggregationTemporality: 2,
+      },
+    });
+  });
+});
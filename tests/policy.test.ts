@@ -0,0 +1,125 @@
+import { join } from 'path';
+import { ErrorClassifier } from '../src/error-classifier';
+import { applyPolicy, loadPolicyFile, parsePolicy, validatePolicy } from '../src/policy';
+import { DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+const fixtures = join(__dirname, 'fixtures', 'policies');
+
+describe('classification policy', () => {
+  it('loads YAML and JSON policy files', async () => {
+    const yaml = await loadPolicyFile(join(fixtures, 'ops.yaml'));
+    const json = await loadPolicyFile(join(fixtures, 'ops.json'));
+
+    expect(yaml.retry).toEqual({ maxRetries: 5, jitterStrategy: 'decorrelated' });
+    expect(yaml.codes?.QUOTA_EXCEEDED).toEqual({ classification: 'rate_limit', retryable: true });
+    expect(json.rules?.[0].id).toBe('ops:gateway-busy');
+  });
+
+  it('applies overrides, rules and lists to a classifier', async () => {
+    const policy = await loadPolicyFile(join(fixtures, 'ops.yaml'));
+    const config = applyPolicy(DEFAULT_RETRY_CONFIG, policy);
+    const classifier = new ErrorClassifier(config);
+
+    expect(config.maxRetries).toBe(5);
+    expect(config.baseDelay).toBe(DEFAULT_RETRY_CONFIG.baseDelay);
+    expect(classifier.classify(ErrorCode.QUOTA_EXCEEDED)).toMatchObject({ classification: 'rate_limit', retryable: true });
+    expect(classifier.classify(ErrorCode.MODEL_NOT_FOUND).retryable).toBe(true);
+    expect(classifier.classify(ErrorCode.INVALID_API_KEY).shouldFallback).toBe(true);
+    // Policy rules run before the built-in rules, which would say SERVICE_UNAVAILABLE
+    expect(classifier.classify(new Error('503: Gateway is busy')).code).toBe(ErrorCode.MODEL_OVERLOADED);
+  });
+
+  it('hot-reloads through setConfig', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+    const busy = new Error('gateway busy');
+    expect(classifier.classify(busy).code).toBe(ErrorCode.UNKNOWN_ERROR);
+
+    classifier.setConfig(applyPolicy(DEFAULT_RETRY_CONFIG, parsePolicy(
+      '{"rules":[{"id":"busy","code":"MODEL_OVERLOADED","message":"gateway busy"}],"codes":{"UNKNOWN_ERROR":{"retryable":true}}}',
+    )));
+    expect(classifier.classify(busy).code).toBe(ErrorCode.MODEL_OVERLOADED);
+    expect(classifier.classify(new Error('???')).retryable).toBe(true);
+
+    classifier.setConfig(applyPolicy(DEFAULT_RETRY_CONFIG, parsePolicy('{}')));
+    expect(classifier.classify(busy).code).toBe(ErrorCode.UNKNOWN_ERROR);
+    expect(classifier.classify(new Error('???')).retryable).toBe(false);
+  });
+
+  it('reports every issue with its path and a suggestion', () => {
+    const result = validatePolicy({
+      retryableErrors: ['RATE_LIMT'],
+      retry: { maxRetries: -1, jiter: true },
+      codes: { TIMEOUT: { classification: 'netwrok' } },
+      rules: [{ id: 'x', code: 'TIMEOUT', message: '(' }, { id: 'x', code: 'TIMEOUT' }],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([
+      'policy.retry.jiter: unknown key (did you mean "jitter"?)',
+      'policy.retry.maxRetries: must not be negative',
+      'policy.retryableErrors[0]: unknown error code "RATE_LIMT" (did you mean "RATE_LIMIT"?)',
+      'policy.codes.TIMEOUT.classification: unknown classification "netwrok" (did you mean "network"?)',
+      expect.stringMatching(/^policy\.rules\[0\]\.message: invalid regular expression/),
+      'policy.rules[1].id: duplicate rule id "x"',
+      'policy.rules[1]: rule needs at least one of message, name, status, errorCode, errorType',
+    ]);
+  });
+
+  it('accepts custom codes and classifications when declared', () => {
+    const policy = { codes: { TOOL_CALL_FAILED: { classification: 'guardrail', retryable: false } } };
+
+    expect(validatePolicy(policy).valid).toBe(false);
+    expect(validatePolicy(policy, { codes: ['TOOL_CALL_FAILED'], classifications: ['guardrail'] }).valid).toBe(true);
+  });
+
+  it('throws with the list of issues when parsing', () => {
+    expect(() => parsePolicy('{"fallbackOnErrors":"TIMEOUT"}'))
+      .toThrow('Invalid classification policy:\n  - policy.fallbackOnErrors: expected a list of error codes');
+    expect(() => parsePolicy('{')).toThrow(/^Invalid classification policy: /);
+  });
+
+  describe('overrides', () => {
+    const policy = {
+      overrides: {
+        codes: { INVALID_API_KEY: { shouldFallback: false } },
+        classifications: { system: { retryable: false } },
+        providers: { OpenAI: { codes: { INTERNAL_ERROR: { retryable: true } } } },
+        agents: { 'gpt-backup': { classifications: { system: { retryable: false } } } },
+      },
+    } as const;
+    const classifier = new ErrorClassifier(applyPolicy(DEFAULT_RETRY_CONFIG, parsePolicy(JSON.stringify(policy))));
+
+    it('can turn retry and fallback off', () => {
+      expect(new ErrorClassifier(DEFAULT_RETRY_CONFIG).classify(ErrorCode.INVALID_API_KEY).shouldFallback).toBe(true);
+      expect(classifier.classify(ErrorCode.INVALID_API_KEY).shouldFallback).toBe(false);
+      expect(classifier.classify(ErrorCode.SERVICE_UNAVAILABLE).retryable).toBe(false);
+    });
+
+    it('prefers agent over provider over global scope', () => {
+      expect(classifier.classify(ErrorCode.INTERNAL_ERROR).retryable).toBe(false);
+      expect(classifier.classify(ErrorCode.INTERNAL_ERROR, { provider: 'openai' }).retryable).toBe(true);
+      expect(classifier.classify(ErrorCode.INTERNAL_ERROR, { provider: 'openai', agent: 'gpt-backup' }).retryable)
+        .toBe(false);
+    });
+
+    it('beats retryableErrors and fallbackOnErrors', () => {
+      const config = applyPolicy({ ...DEFAULT_RETRY_CONFIG, retryableErrors: [ErrorCode.SERVICE_UNAVAILABLE] }, policy);
+      expect(new ErrorClassifier(config).classify(ErrorCode.SERVICE_UNAVAILABLE).retryable).toBe(false);
+    });
+
+    it('applies to existing classifications', () => {
+      const classified = classifier.classify(ErrorCode.INTERNAL_ERROR);
+      expect(classifier.applyOverrides(classified, { provider: 'openai' }).retryable).toBe(true);
+    });
+
+    it('validates override scopes', () => {
+      const result = validatePolicy({
+        overrides: { agents: { a: { codes: { TIMEOUT: { retry: false } } } }, classifications: { sytem: {} } },
+      });
+      expect(result.issues).toEqual([
+        'policy.overrides.classifications.sytem: unknown classification "sytem" (did you mean "system"?)',
+        'policy.overrides.agents.a.codes.TIMEOUT.retry: unknown key (did you mean "retryable"?)',
+      ]);
+    });
+  });
+});
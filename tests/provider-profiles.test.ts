@@ -0,0 +1,48 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ErrorClassifier } from '../src/error-classifier';
+import { DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+interface ProviderFixture {
+  description: string;
+  error: Record<string, unknown> & { message: string; name?: string };
+  expected: ErrorCode;
+}
+
+function loadFixtures(provider: string): ProviderFixture[] {
+  return JSON.parse(readFileSync(join(__dirname, 'fixtures', 'providers', `${provider}.json`), 'utf8'));
+}
+
+function toError({ name, message, ...fields }: ProviderFixture['error']): Error {
+  const error = Object.assign(new Error(message), fields);
+  if (name) error.name = name;
+  return error;
+}
+
+describe('provider profiles', () => {
+  const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+
+  describe.each(['openai', 'anthropic', 'google', 'azure', 'bedrock'])('%s', (provider) => {
+    it.each(loadFixtures(provider).map((fixture) => [fixture.description, fixture] as const))('%s', (_, fixture) => {
+      expect(classifier.classify(toError(fixture.error), { provider }).code).toBe(fixture.expected);
+    });
+  });
+
+  it('uses the classifier-wide provider by default', () => {
+    const bedrock = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { provider: 'bedrock' });
+    const error = toError({ name: 'ServiceQuotaExceededException', message: 'Your request exceeds the service quota.' });
+    expect(bedrock.classify(error).code).toBe(ErrorCode.QUOTA_EXCEEDED);
+  });
+
+  it('falls back to the general rules for unknown providers', () => {
+    expect(classifier.classify(new Error('rate limit hit'), { provider: 'acme' }).code).toBe(ErrorCode.RATE_LIMIT);
+  });
+
+  it('accepts custom provider profiles', () => {
+    const custom = new ErrorClassifier(DEFAULT_RETRY_CONFIG, {
+      providers: [{ name: 'acme', rules: [{ id: 'acme:busy', code: ErrorCode.MODEL_OVERLOADED, errorType: 'BUSY' }] }],
+    });
+    expect(custom.classify(Object.assign(new Error('busy'), { code: 'BUSY' }), { provider: 'acme' }).code)
+      .toBe(ErrorCode.MODEL_OVERLOADED);
+  });
+});
@@ -0,0 +1,98 @@
+import { TypedEventEmitter } from '../src/events';
+import { FallbackExecutor } from '../src/fallback-executor';
+import { QualityGates } from '../src/quality-gates';
+import { AgentAdapter, AgentResponse, DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+function response(content: string, latency = 100, agentName = 'primary'): AgentResponse {
+  return { success: true, content, agentName, metadata: { latency, timestamp: 0, retries: 0 } };
+}
+
+describe('QualityGates', () => {
+  const config = { minResponseLength: 5, maxErrorRate: 0.5, latencyThreshold: 1000, minQualityScore: 0.7 };
+
+  it('passes responses that meet every gate', () => {
+    const gates = new QualityGates(config, { scorer: () => 0.9 });
+    expect(gates.evaluate(response('hello world'))).toEqual({ passed: true, failures: [] });
+  });
+
+  it('does not pass failed responses', () => {
+    const gates = new QualityGates(config, { scorer: () => 0.9 });
+    const failed = { ...response('hello world'), success: false, error: 'Request timeout' };
+
+    expect(gates.evaluate(failed)).toEqual({ passed: false, failures: [] });
+  });
+
+  it('reports each failed gate as a classified error', () => {
+    const events = new TypedEventEmitter();
+    const listener = jest.fn();
+    events.on('quality:gate-failed', listener);
+    const gates = new QualityGates(config, { scorer: () => 0.2, events });
+
+    const result = gates.evaluate(response('hi', 5000));
+
+    expect(result.passed).toBe(false);
+    expect(result.failures.map((f) => [f.gate, f.error.code])).toEqual([
+      ['minResponseLength', ErrorCode.QUALITY_THRESHOLD_NOT_MET],
+      ['latencyThreshold', ErrorCode.LATENCY_TOO_HIGH],
+      ['minQualityScore', ErrorCode.QUALITY_THRESHOLD_NOT_MET],
+    ]);
+    expect(listener).toHaveBeenCalledWith({ agentName: 'primary', gate: 'latencyThreshold', actual: 5000, expected: 1000 });
+  });
+
+  it('classifies blank content as an empty response', () => {
+    const gates = new QualityGates(config);
+    expect(gates.evaluate(response('   ')).failures[0].error.code).toBe(ErrorCode.EMPTY_RESPONSE);
+  });
+
+  it('enforces the rolling error rate once enough samples exist', () => {
+    const gates = new QualityGates(config, { windowSize: 4, minSamples: 4 });
+    gates.recordOutcome('primary', false);
+    gates.recordOutcome('primary', false);
+    gates.recordOutcome('primary', false);
+
+    const result = gates.evaluate(response('hello world'));
+
+    expect(gates.getErrorRate('primary')).toBe(0.75);
+    expect(result.failures.map((f) => f.gate)).toEqual(['maxErrorRate']);
+  });
+});
+
+describe('FallbackExecutor quality gates', () => {
+  const short: AgentAdapter = { name: 'primary', execute: async () => response('ok'), healthCheck: async () => true };
+  const long: AgentAdapter = {
+    name: 'secondary',
+    execute: async () => response('a full answer', 100, 'secondary'),
+    healthCheck: async () => true,
+  };
+  const chain = [{ name: 'primary', provider: 'a', priority: 1 }, { name: 'secondary', provider: 'b', priority: 2 }];
+  const config = {
+    ...DEFAULT_RETRY_CONFIG,
+    qualityGates: { minResponseLength: 5, maxErrorRate: 1, latencyThreshold: 1000 },
+  };
+
+  it('falls back when a response fails a gate', async () => {
+    const executor = new FallbackExecutor(chain, [short, long], config);
+    expect((await executor.execute({ prompt: 'hi' })).agentName).toBe('secondary');
+  });
+
+  it('classifies only the gate failure it acts on, for the agent', async () => {
+    const events = new TypedEventEmitter();
+    const classified = jest.fn();
+    events.on('error:classified', classified);
+    const slowShort: AgentAdapter = { ...short, execute: async () => response('ok', 5000) };
+    const executor = new FallbackExecutor(chain, [slowShort, long], config, { events });
+
+    expect((await executor.execute({ prompt: 'hi' })).agentName).toBe('secondary');
+    expect(classified).toHaveBeenCalledTimes(1);
+    expect(classified).toHaveBeenCalledWith(expect.objectContaining({
+      error: ErrorCode.QUALITY_THRESHOLD_NOT_MET,
+      agentName: 'primary',
+      provider: 'a',
+    }));
+  });
+
+  it('skips gates when asked to', async () => {
+    const executor = new FallbackExecutor(chain, [short, long], config);
+    expect((await executor.execute({ prompt: 'hi' }, { skipQualityGates: true })).agentName).toBe('primary');
+  });
+});
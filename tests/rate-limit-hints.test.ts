@@ -0,0 +1,66 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { parseDuration, parseRetryAfter, parseRetryPhrase } from '../src/rate-limit-hints';
+import { DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+const NOW = Date.parse('2026-01-01T00:00:00Z');
+
+function rateLimitError(message: string, headers: Record<string, string>): Error {
+  return Object.assign(new Error(message), { status: 429, headers });
+}
+
+describe('rate limit hint parsing', () => {
+  it('parses durations, Retry-After values and message phrases', () => {
+    expect(parseDuration('6m0s')).toBe(360_000);
+    expect(parseDuration('1.5s')).toBe(1500);
+    expect(parseDuration('20ms')).toBe(20);
+    expect(parseDuration('soon')).toBeUndefined();
+
+    expect(parseRetryAfter('7', NOW)).toBe(7000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:30 GMT', NOW)).toBe(30_000);
+
+    expect(parseRetryPhrase('Rate limit reached. Please try again in 20s.')).toBe(20_000);
+    expect(parseRetryPhrase('Please retry after 1.5 seconds')).toBe(1500);
+    expect(parseRetryPhrase('Rate limit reached for gpt-4 on requests per min. Please try again in 1m30s.')).toBe(90_000);
+    expect(parseRetryPhrase('Rate limit reached on tokens per day. Please try again in 6m0s. Visit the usage page.'))
+      .toBe(360_000);
+    expect(parseRetryPhrase('Please try again in 5 minutes')).toBe(300_000);
+  });
+});
+
+describe('ErrorClassifier rate limit hints', () => {
+  const classifier = new ErrorClassifier(
+    { ...DEFAULT_RETRY_CONFIG, jitter: false, maxDelay: 60_000 },
+    { now: () => NOW },
+  );
+
+  it('carries Retry-After and remaining quota on the classified error', () => {
+    const result = classifier.classify(rateLimitError('Too many requests', {
+      'Retry-After': '12',
+      'x-ratelimit-limit-requests': '500',
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '6m0s',
+    }));
+
+    expect(result.code).toBe(ErrorCode.RATE_LIMIT);
+    expect(result.retryAfterMs).toBe(12_000);
+    expect(result.rateLimit).toEqual({ limitRequests: 500, remainingRequests: 0, resetRequestsMs: 360_000 });
+  });
+
+  it('falls back to the reset time of an exhausted quota', () => {
+    const result = classifier.classify(rateLimitError('Too many requests', {
+      'anthropic-ratelimit-tokens-remaining': '0',
+      'anthropic-ratelimit-tokens-reset': '2026-01-01T00:00:45Z',
+    }));
+    expect(result.retryAfterMs).toBe(45_000);
+  });
+
+  it('uses the provider hint over the exponential schedule', () => {
+    const error = new Error('Rate limit reached. Please try again in 20s.');
+    expect(classifier.getRetryDecision(error, 1)).toMatchObject({ retry: true, delay: 20_000 });
+  });
+
+  it('gives up when the provider asks for longer than maxDelay', () => {
+    const error = rateLimitError('Too many requests', { 'retry-after': '120' });
+    expect(classifier.getRetryDecision(error, 1)).toMatchObject({ retry: false, reason: 'retry_after_exceeds_max_delay' });
+  });
+});
@@ -0,0 +1,138 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { FallbackExecutor } from '../src/fallback-executor';
+import { RetryBudget, TokenBucket } from '../src/retry-budget';
+import { AgentAdapter, DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+describe('RetryBudget', () => {
+  it('allows minRetries plus a ratio of recent requests', () => {
+    let now = 0;
+    const budget = new RetryBudget({ ratio: 0.5, minRetries: 1, windowMs: 1000 }, { now: () => now });
+    for (let i = 0; i < 4; i++) budget.recordRequest();
+
+    expect(budget.getRemaining()).toBe(3);
+    expect([budget.tryRetry(), budget.tryRetry(), budget.tryRetry(), budget.tryRetry()]).toEqual([true, true, true, false]);
+
+    now = 1000;
+    expect(budget.getRemaining()).toBe(1);
+  });
+
+  it('forgets requests outside the window without being asked for retries', () => {
+    let now = 0;
+    const budget = new RetryBudget({ ratio: 0.5, minRetries: 1, windowMs: 1000 }, { now: () => now });
+    for (; now < 5000; now += 10) budget.recordRequest();
+
+    expect((budget as unknown as { requests: number[] }).requests.length).toBeLessThanOrEqual(100);
+    expect(budget.getRemaining()).toBe(50);
+  });
+});
+
+describe('TokenBucket', () => {
+  it('refills continuously up to capacity', () => {
+    let now = 0;
+    const bucket = new TokenBucket(2, 60, { now: () => now });
+
+    expect([bucket.tryTake(), bucket.tryTake(), bucket.tryTake()]).toEqual([true, true, false]);
+    now = 1000;
+    expect(bucket.getAvailable()).toBe(1);
+    now = 60000;
+    expect(bucket.getAvailable()).toBe(2);
+  });
+});
+
+describe('retry decisions with budgets', () => {
+  const timeout = { ...DEFAULT_RETRY_CONFIG, jitter: false, retryBudget: { ratio: 0, minRetries: 1, windowMs: 1000 } };
+
+  it('stops with budget_exhausted once the shared budget is spent', () => {
+    const classifier = new ErrorClassifier(timeout);
+    const error = classifier.classify(ErrorCode.TIMEOUT);
+
+    expect(classifier.decideRetry(error, 1).retry).toBe(true);
+    expect(classifier.decideRetry(error, 1)).toMatchObject({ retry: false, reason: 'budget_exhausted' });
+  });
+
+  it('shares a budget between classifiers', () => {
+    const retryBudget = new RetryBudget({ ratio: 0, minRetries: 1, windowMs: 1000 });
+    const a = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { retryBudget });
+    const b = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { retryBudget });
+
+    expect(a.decideRetry(a.classify(ErrorCode.TIMEOUT), 1).retry).toBe(true);
+    expect(b.getRetryDecision(ErrorCode.TIMEOUT, 1).reason).toBe('budget_exhausted');
+  });
+
+  it('spends nothing when only asked, or when the deadline refuses the retry', () => {
+    const classifier = new ErrorClassifier(timeout);
+    const tokenBucket = new TokenBucket(1, 0);
+    const error = classifier.classify(ErrorCode.TIMEOUT);
+
+    expect(classifier.getRetryDecision(ErrorCode.TIMEOUT, 1, { tokenBucket }).retry).toBe(true);
+    expect(classifier.decideRetry(error, 1, { tokenBucket, remainingMs: 50 }))
+      .toMatchObject({ retry: false, reason: 'deadline_exceeded' });
+    expect(tokenBucket.getAvailable()).toBe(1);
+
+    expect(classifier.decideRetry(error, 1, { tokenBucket }).retry).toBe(true);
+    expect(tokenBucket.getAvailable()).toBe(0);
+    expect(classifier.getRetryDecision(ErrorCode.TIMEOUT, 1).reason).toBe('budget_exhausted');
+  });
+
+  it('consults the agent token bucket without spending the budget on refusal', () => {
+    const classifier = new ErrorClassifier(timeout);
+    const tokenBucket = new TokenBucket(0, 0);
+
+    expect(classifier.getRetryDecision(ErrorCode.TIMEOUT, 1, { tokenBucket }).reason).toBe('budget_exhausted');
+    expect(classifier.getRetryDecision(ErrorCode.TIMEOUT, 1).retry).toBe(true);
+  });
+});
+
+describe('FallbackExecutor rate limits', () => {
+  function adapter(name: string, error?: Error): AgentAdapter & { calls: number } {
+    return {
+      name,
+      calls: 0,
+      async execute() {
+        this.calls++;
+        if (error) throw error;
+        return { success: true, content: 'ok', agentName: name, metadata: { latency: 1, timestamp: 0, retries: 0 } };
+      },
+      async healthCheck() {
+        return true;
+      },
+    };
+  }
+
+  it('enforces AgentConfig.rateLimit across attempts and falls back', async () => {
+    const chain = [
+      { name: 'primary', provider: 'openai', priority: 1, rateLimit: 2 },
+      { name: 'secondary', provider: 'anthropic', priority: 2 },
+    ];
+    const primary = adapter('primary', new Error('Request timeout'));
+    const secondary = adapter('secondary');
+    const executor = new FallbackExecutor(chain, [primary, secondary], { ...DEFAULT_RETRY_CONFIG, jitter: false }, {
+      now: () => 0,
+      sleep: () => Promise.resolve(),
+    });
+
+    expect((await executor.execute({ prompt: 'hi' })).agentName).toBe('secondary');
+    expect(primary.calls).toBe(2);
+
+    // Out of tokens: skipped entirely
+    await executor.execute({ prompt: 'hi' });
+    expect(primary.calls).toBe(2);
+  });
+
+  it('does not spend a token on a retry the deadline refuses', async () => {
+    const chain = [
+      { name: 'primary', provider: 'openai', priority: 1, rateLimit: 2 },
+      { name: 'secondary', provider: 'anthropic', priority: 2 },
+    ];
+    const primary = adapter('primary', new Error('Request timeout'));
+    const executor = new FallbackExecutor(chain, [primary, adapter('secondary')], { ...DEFAULT_RETRY_CONFIG, jitter: false }, {
+      now: () => 0,
+      sleep: () => Promise.resolve(),
+    });
+
+    // The first retry would wait longer than the 50ms left
+    expect((await executor.execute({ prompt: 'hi' }, { timeout: 50 })).agentName).toBe('secondary');
+    await executor.execute({ prompt: 'hi' }, { timeout: 50 });
+    expect(primary.calls).toBe(2);
+  });
+});
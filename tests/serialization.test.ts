@@ -0,0 +1,75 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { ClassifiedErrorException, deserializeError, serializeError } from '../src/serialization';
+import { DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+describe('serialization', () => {
+  const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+
+  function providerError(): Error {
+    const cause = Object.assign(new Error('connect ECONNRESET'), { code: 'ECONNRESET' });
+    return Object.assign(new Error('429 Rate limit reached', { cause }), {
+      status: 429,
+      headers: { 'retry-after': '2' },
+      error: { type: 'rate_limit_error', message: 'Rate limit reached' },
+    });
+  }
+
+  it('round-trips through JSON and re-classifies to the same code', () => {
+    const original = providerError();
+    const classified = classifier.classify(original);
+    const json = JSON.stringify(serializeError(classified, { cause: original }));
+    const revived = deserializeError(json);
+
+    expect(revived).toBeInstanceOf(ClassifiedErrorException);
+    expect(revived.classified).toEqual(classified);
+    expect(classifier.classify(revived)).toEqual(classified);
+    expect(classifier.classify(revived.cause as Error).code).toBe(ErrorCode.RATE_LIMIT);
+    expect(((revived.cause as Error).cause as Error & { code: string }).code).toBe('ECONNRESET');
+    expect((revived.cause as Error).stack).toBe(original.stack);
+  });
+
+  it('serializes exceptions with their stack and cause via toJSON', () => {
+    const original = providerError();
+    const exception = new ClassifiedErrorException(classifier.classify(original), { cause: original });
+    const parsed = JSON.parse(JSON.stringify(exception));
+
+    expect(parsed).toMatchObject({ version: 1, code: ErrorCode.RATE_LIMIT, status: 429, retryAfterMs: 2000 });
+    expect(parsed.stack).toBe(exception.stack);
+    expect(parsed.cause.body).toEqual({ type: 'rate_limit_error', message: 'Rate limit reached' });
+    expect(deserializeError(parsed).stack).toBe(exception.stack);
+  });
+
+  it('redacts API keys from messages, stacks and bodies', () => {
+    const apiKey = 'my-agent-secret-key';
+    const error = Object.assign(new Error(`Incorrect API key provided: sk-proj-abcdef123456 (${apiKey})`), {
+      status: 401,
+      error: { code: 'invalid_api_key', api_key: 'anything', url: 'https://x.test/v1?key=AIzaSecret' },
+    });
+    const serialized = JSON.stringify(serializeError(classifier.classify(error), { cause: error, secrets: [apiKey] }));
+
+    expect(serialized).not.toContain('sk-proj-abcdef123456');
+    expect(serialized).not.toContain(apiKey);
+    expect(serialized).not.toContain('anything');
+    expect(serialized).not.toContain('AIzaSecret');
+    expect(serialized).toContain('[REDACTED]');
+  });
+
+  it('can omit stack traces', () => {
+    const exception = new ClassifiedErrorException(classifier.classify(ErrorCode.TIMEOUT), { cause: new Error('slow') });
+    const serialized = serializeError(exception, { stack: false });
+
+    expect(serialized.stack).toBeUndefined();
+    expect(serialized.cause?.stack).toBeUndefined();
+  });
+
+  it('validates the schema', () => {
+    const valid = serializeError(classifier.classify(ErrorCode.TIMEOUT));
+
+    expect(() => deserializeError({ ...valid, version: 2 })).toThrow('Unsupported serialized error version: 2');
+    expect(() => deserializeError({ ...valid, retryable: 'yes' })).toThrow('retryable must be a boolean');
+    expect(() => deserializeError({ ...valid, cause: { message: 1 } })).toThrow('cause.message must be a string');
+    expect(() => deserializeError({ ...valid, rateLimit: { remainingTokens: '5' } }))
+      .toThrow('rateLimit.remainingTokens must be a number');
+    expect(() => deserializeError('null')).toThrow('value must be an object');
+  });
+});
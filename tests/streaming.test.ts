@@ -0,0 +1,68 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { classifyStreamFailure, StreamMonitor } from '../src/streaming';
+import { DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+describe('streaming failures', () => {
+  const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+
+  it('classifies SSE error frames by their provider type', () => {
+    const monitor = new StreamMonitor();
+    monitor.recordContent('Hello, ');
+    monitor.recordFrame('{"type":"error","error":{"type":"overloaded_error","message":"Overloaded"}}', 'error');
+
+    const result = classifyStreamFailure(classifier, monitor.getFailure());
+    expect(result).toMatchObject({ code: ErrorCode.MODEL_OVERLOADED, message: 'Overloaded' });
+    expect(result.stream).toEqual({
+      kind: 'error_event',
+      receivedChars: 7,
+      receivedChunks: 1,
+      resumable: true,
+      retryFromScratch: true,
+    });
+  });
+
+  it('treats a socket reset after partial content as a resumable connection error', () => {
+    const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    const result = classifyStreamFailure(classifier, { error: reset, receivedContent: 'partial', receivedChunks: 3 });
+
+    expect(result.code).toBe(ErrorCode.CONNECTION_ERROR);
+    expect(result.stream).toMatchObject({ kind: 'connection', receivedChars: 7, resumable: true });
+  });
+
+  it('reports truncated chunks as invalid partial responses', () => {
+    const monitor = new StreamMonitor();
+    monitor.recordContent('The answer');
+    monitor.recordFrame('{"choices":[{"delta":{"content":" is');
+
+    const result = classifyStreamFailure(classifier, monitor.getFailure());
+    expect(result.code).toBe(ErrorCode.INVALID_RESPONSE);
+    expect(result.stream.kind).toBe('truncated_chunk');
+  });
+
+  it('reports streams that end without content as empty', () => {
+    const syntax = classifyStreamFailure(classifier, { error: new SyntaxError('Unexpected end of JSON input') });
+    const early = classifyStreamFailure(classifier, { receivedContent: '' });
+
+    expect(syntax).toMatchObject({ code: ErrorCode.EMPTY_RESPONSE, stream: { kind: 'truncated_chunk', resumable: false } });
+    expect(early).toMatchObject({ code: ErrorCode.EMPTY_RESPONSE, stream: { kind: 'ended_early', retryFromScratch: true } });
+  });
+
+  it('does not recommend retrying non-retryable provider errors', () => {
+    const result = classifyStreamFailure(classifier, {
+      errorEvent: { type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } },
+      receivedContent: 'abc',
+    }, { provider: 'anthropic' });
+
+    expect(result.code).toBe(ErrorCode.INVALID_API_KEY);
+    expect(result.stream).toMatchObject({ resumable: false, retryFromScratch: false });
+  });
+
+  it('tracks terminators', () => {
+    const monitor = new StreamMonitor();
+    monitor.recordFrame('{"ok":true}');
+    monitor.recordFrame('[DONE]');
+
+    expect(monitor.getFailure()).toMatchObject({ completed: true });
+    expect(monitor.getFailure().truncatedChunk).toBeUndefined();
+  });
+});
@@ -0,0 +1,84 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { deserializeError, serializeError } from '../src/serialization';
+import { getUserMessage, sanitizeMessage } from '../src/user-messages';
+import { ClassifiedError, DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+function classified(overrides: Partial<ClassifiedError> = {}): ClassifiedError {
+  return {
+    code: ErrorCode.RATE_LIMIT,
+    classification: 'rate_limit',
+    retryable: true,
+    shouldFallback: true,
+    message: 'Rate limit reached for org-abc123 on gpt-4',
+    ...overrides,
+  };
+}
+
+describe('sanitizeMessage', () => {
+  it('redacts secrets, URLs, emails, addresses, hostnames and long numbers', () => {
+    expect(sanitizeMessage(
+      'Key sk-abcdefgh12345678 for jane.doe@example.com failed at https://api.internal.example.com/v1 ' +
+        'via 10.1.2.3 and db-7.prod.internal, call +1 (555) 123-4567',
+    )).toBe('Key [REDACTED] for [email] failed at [url] via [ip] and [host], call [number]');
+    expect(sanitizeMessage('token hunter2hunter2 leaked', ['hunter2hunter2'])).toBe('token [REDACTED] leaked');
+  });
+});
+
+describe('getUserMessage', () => {
+  it('fills placeholders from the classification', () => {
+    expect(getUserMessage(classified({ retryAfterMs: 20500 })))
+      .toBe('Too many requests right now. Please try again in 21 seconds.');
+    expect(getUserMessage(classified({
+      code: ErrorCode.CONTEXT_LENGTH_EXCEEDED,
+      classification: 'model',
+      contextLength: { limit: 8192, requested: 10234, overflow: 2042 },
+    }))).toBe('Your request is too long (10,234 tokens, limit 8,192). Please shorten it and try again.');
+  });
+
+  it('falls back to the classification template when a placeholder has no value', () => {
+    expect(getUserMessage(classified())).toBe('Too many requests right now. Please try again shortly.');
+  });
+
+  it('resolves regional locales and falls back to English', () => {
+    expect(getUserMessage(classified({ retryAfterMs: 5000 }), { locale: 'de-AT' }))
+      .toBe('Zu viele Anfragen. Bitte versuche es in 5 Sekunden erneut.');
+    expect(getUserMessage(classified({ code: ErrorCode.QUOTA_EXCEEDED }), { locale: 'fr' }))
+      .toBe('Trop de requêtes pour le moment. Veuillez réessayer dans un instant.');
+    expect(getUserMessage(classified(), { locale: 'ja' }))
+      .toBe('Too many requests right now. Please try again shortly.');
+  });
+
+  it('uses custom catalogs and only exposes the sanitized detail', () => {
+    const text = getUserMessage(classified({ message: 'Upstream db-1.corp.internal refused sk-secretsecret99' }), {
+      locale: 'pt-BR',
+      catalogs: { pt: { default: 'Erro temporário ({detail}).' } },
+    });
+
+    expect(text).toBe('Erro temporário (Upstream [host] refused [REDACTED]).');
+  });
+});
+
+describe('ErrorClassifier user messages', () => {
+  it('attaches userMessage alongside the raw message when enabled', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG, { userMessages: { locale: 'es' } });
+    const error = Object.assign(new Error('Too many requests from 10.0.0.7'), {
+      status: 429,
+      headers: { 'retry-after': '30' },
+    });
+
+    const result = classifier.classify(error);
+    expect(result.message).toBe('Too many requests from 10.0.0.7');
+    expect(result.userMessage).toBe('Hay demasiadas solicitudes en este momento. Inténtalo de nuevo en 30 segundos.');
+    expect(classifier.classify(error, { locale: 'en' }).userMessage)
+      .toBe('Too many requests right now. Please try again in 30 seconds.');
+  });
+
+  it('leaves userMessage unset by default and keeps it when serialized', () => {
+    const classifier = new ErrorClassifier(DEFAULT_RETRY_CONFIG);
+    expect(classifier.classify('Request timeout').userMessage).toBeUndefined();
+
+    const withMessage = classifier.classify('Request timeout', { locale: 'en' });
+    const revived = deserializeError(JSON.parse(JSON.stringify(serializeError(withMessage))));
+    expect(revived.classified.userMessage).toBe('The request took too long. Please try again.');
+  });
+});
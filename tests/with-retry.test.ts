@@ -0,0 +1,83 @@
+import { ErrorClassifier } from '../src/error-classifier';
+import { retryable, RetryError, withRetry } from '../src/with-retry';
+import { DEFAULT_RETRY_CONFIG, ErrorCode } from '../src/types';
+
+const config = { ...DEFAULT_RETRY_CONFIG, maxRetries: 2, baseDelay: 10, jitter: false };
+const sleep = jest.fn((_ms: number) => Promise.resolve());
+
+function failing(...errors: Error[]): jest.Mock {
+  const fn = jest.fn();
+  for (const error of errors) fn.mockRejectedValueOnce(error);
+  return fn.mockResolvedValue('ok');
+}
+
+describe('withRetry', () => {
+  beforeEach(() => sleep.mockClear());
+
+  it('retries retryable errors with backoff', async () => {
+    const fn = failing(new Error('Request timeout'), Object.assign(new Error('reset'), { code: 'ECONNRESET' }));
+
+    await expect(withRetry(fn, { config, sleep })).resolves.toBe('ok');
+    expect(fn.mock.calls).toEqual([[0], [1], [2]]);
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([10, 20]);
+  });
+
+  it('fails immediately on non-retryable errors', async () => {
+    const fn = failing(Object.assign(new Error('Unauthorized'), { status: 401 }));
+
+    const error = await withRetry(fn, { config, sleep }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(RetryError);
+    expect(error).toBeInstanceOf(AggregateError);
+    expect(error).toMatchObject({ reason: 'not_retryable', lastError: { code: ErrorCode.INVALID_API_KEY } });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('lists every attempt when retries run out', async () => {
+    const errors = [new Error('Request timeout'), new Error('rate limit hit'), new Error('Request timeout')];
+    const fn = failing(...errors);
+
+    const error = (await withRetry(fn, { config, sleep }).catch((e: unknown) => e)) as RetryError;
+    expect(error.reason).toBe('max_retries_exceeded');
+    expect(error.errors).toEqual(errors);
+    expect(error.attempts.map((attempt) => attempt.code))
+      .toEqual([ErrorCode.TIMEOUT, ErrorCode.RATE_LIMIT, ErrorCode.TIMEOUT]);
+    expect(error.message).toBe('Failed after 3 attempt(s) (max_retries_exceeded): TIMEOUT: Request timeout');
+  });
+
+  it('rejects with the abort reason when aborted', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn(async () => {
+      controller.abort(new Error('stop'));
+      throw new Error('Request timeout');
+    });
+
+    await expect(withRetry(fn, { config, sleep, signal: controller.signal })).rejects.toThrow('stop');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the given classifier and reports retries', async () => {
+    const classifier = new ErrorClassifier(config);
+    const onRetry = jest.fn();
+
+    await withRetry(failing(new Error('Request timeout')), { classifier, sleep, onRetry });
+    expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ retry: true, delay: 10, attempt: 1 }));
+  });
+});
+
+describe('retryable decorator', () => {
+  it('retries decorated methods with their receiver', async () => {
+    class Client {
+      calls = 0;
+
+      @retryable({ config, sleep })
+      async fetch(path: string): Promise<string> {
+        if (this.calls++ === 0) throw new Error('Request timeout');
+        return `GET ${path}`;
+      }
+    }
+
+    const client = new Client();
+    await expect(client.fetch('/health')).resolves.toBe('GET /health');
+    expect(client.calls).toBe(2);
+  });
+});